@@ -77,6 +77,32 @@ const resolveVariants = async (familyName) => {
   return variants;
 };
 
+// Every file of the build, read from Vite's manifest, so chunks that are only
+// imported on demand (mermaid and its diagram types) work offline without
+// having been used first. KaTeX's .woff/.ttf fallbacks are left out; every
+// browser that runs the app loads the .woff2 files.
+const getBuildFiles = async () => {
+  try {
+    const response = await fetch(withBase("precache-manifest.json"), {
+      cache: "no-store",
+    });
+    if (!response.ok) {
+      return [];
+    }
+    const manifest = await response.json();
+    const files = new Set();
+    Object.values(manifest).forEach((chunk) => {
+      [chunk.file, ...(chunk.css || []), ...(chunk.assets || [])]
+        .filter((file) => file && !/\.(woff|ttf)$/.test(file))
+        .forEach((file) => files.add(withBase(file)));
+    });
+    return Array.from(files);
+  } catch {
+    // The dev server has no manifest; files are cached as they load.
+    return [];
+  }
+};
+
 self.addEventListener("install", (event) => {
   event.waitUntil(
     (async () => {
@@ -88,6 +114,7 @@ self.addEventListener("install", (event) => {
         withBase("manifest.webmanifest"),
         withBase("favicon.svg"),
       ]);
+      await cache.addAll(await getBuildFiles());
       await self.skipWaiting();
     })().catch(() => self.skipWaiting())
   );
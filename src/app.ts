@@ -1,5 +1,3 @@
-import DOMPurify from "dompurify";
-import MarkdownIt from "markdown-it";
 import { Editor } from "@tiptap/core";
 import StarterKit from "@tiptap/starter-kit";
 import Image from "@tiptap/extension-image";
@@ -15,6 +13,19 @@ import {
   resolveAppImages,
   storeImageFile,
 } from "./assets/images";
+import {
+  HighlightMark,
+  SubscriptMark,
+  SuperscriptMark,
+} from "./editor/inlineMarks";
+import { MathBlock, MathInline } from "./editor/math";
+import { PageBreak } from "./editor/pageBreak";
+import { TableOfContents } from "./editor/tableOfContents";
+import {
+  focusEditorAtSource,
+  losesContent,
+  sourceOffsetFromEditor,
+} from "./editor/sourceMode";
 import { downloadBlob } from "./export/download";
 import {
   FontStatus,
@@ -25,81 +36,161 @@ import {
   popularFonts,
   resolveFontVariants,
   getFontCacheStatus,
+  getFontVariantStore,
   storeFontVariants,
 } from "./fonts/fonts";
 import { exportPngZip } from "./export/exportPngZip";
+import { exportHtml } from "./export/exportHtml";
 import { exportPdf } from "./export/exportPdf";
+import { exportVectorPdf } from "./export/exportVectorPdf";
+import type { PdfMetadata } from "./export/pdfTargets";
+import { measurePagination } from "./export/pageDom";
 import { rasterizePages } from "./export/rasterize";
+import {
+  BORDER_SIDES,
+  BORDER_STYLES,
+  ElementStyle,
+  STYLED_ELEMENTS,
+  StyledElementId,
+  TEXT_ALIGNS,
+  applyElementStyles,
+  elementFontFamilies,
+  sanitizeElementStyles,
+} from "./layout/elementStyles";
+import {
+  MAX_PAGE_MM,
+  MIN_PAGE_MM,
+  formatPageSize,
+  isPageSizeId,
+  resolvePageSize,
+} from "./layout/pageSizes";
+import {
+  MARGIN_SIDES,
+  MAX_GUTTER_MM,
+  MAX_MARGIN_MM,
+  MarginSide,
+  formatMargins,
+  resolvePageMargins,
+  sanitizeGutter,
+  sanitizeMargins,
+  uniformMargins,
+} from "./layout/pageMargins";
+import {
+  BAND_TOKENS,
+  PageBands,
+  RunningBand,
+  bandsUseToken,
+  emptyBand,
+  fillBandNode,
+  hasBandContent,
+} from "./layout/runningBands";
+import {
+  MAX_USER_CSS_LENGTH,
+  applyUserCss,
+  scopeUserCss,
+} from "./layout/userCss";
+import {
+  FrontMatter,
+  frontMatterSource,
+  parseFrontMatter,
+  splitFrontMatter,
+  wrapFrontMatter,
+} from "./markdown/frontMatter";
+import {
+  MARKDOWN_EXTENSIONS,
+  isMarkdownExtensionId,
+} from "./markdown/extensions";
+import { renderDiagrams } from "./markdown/diagrams";
+import { applyCodeLineNumbers } from "./markdown/highlight";
+import {
+  md,
+  renderMarkdown,
+  setMarkdownExtensions,
+} from "./markdown/render";
+import { HeadingLevel, isHeadingLevel } from "./markdown/toc";
+import {
+  LibraryDocument,
+  createDocument,
+  duplicateDocument,
+  getActiveDocumentId,
+  getLibraryDocument,
+  listDocuments,
+  removeDocument,
+  renameDocument,
+  saveDocument,
+  searchDocuments,
+  setActiveDocumentId,
+  titleFromMarkdown,
+} from "./state/documents";
+import { createBundle, readBundle } from "./state/bundle";
+import {
+  MarkdownImageMode,
+  buildMarkdownFile,
+  isMarkdownFile,
+  readMarkdownFile,
+  titleFromFileName,
+} from "./state/markdownFile";
+import { loadDraft, saveDraft } from "./state/persist";
+import {
+  StylePreset,
+  builtInPresets,
+  capturePreset,
+  loadPresets,
+  parsePresetFile,
+  presetMatches,
+  savePresets,
+  serializePresets,
+} from "./state/presets";
+import {
+  AppSettings,
+  defaultSettings,
+  diffSettings,
+  documentSettingKeys,
+  loadSettings,
+  pickDocumentSettings,
+  saveSettings,
+  settingRanges,
+  settingSections,
+} from "./state/settings";
+import {
+  ParsedSettingsBackup,
+  SettingsBackup,
+  parseSettingsBackup,
+  serializeSettingsBackup,
+} from "./state/settingsBackup";
+import {
+  StorageArea,
+  StorageAreaId,
+  clearStorageArea,
+  formatBytes,
+  measureStorage,
+} from "./state/storageUsage";
+import {
+  CONTRAST_PAIRS,
+  CustomTheme,
+  THEME_VARIABLES,
+  ThemeId,
+  builtInThemeIds,
+  builtInThemes,
+  contrastRatio,
+  createCustomThemeId,
+  isThemeColor,
+  isThemeId,
+  loadCustomThemes,
+  parseThemeFile,
+  resolveTheme,
+  saveCustomThemes,
+  serializeThemes,
+} from "./state/themes";
 import { registerServiceWorker } from "./sw/register";
+import "katex/dist/katex.min.css";
 import "./style.css";
 
 const app = document.querySelector<HTMLDivElement>("#app");
 
-const md = new MarkdownIt({
-  html: false,
-  linkify: true,
-  breaks: true,
-});
-
-type ThemeId = "light" | "dark" | "paper" | "terminal";
-type HeadingLevel = 1 | 2 | 3 | 4 | 5 | 6;
-
-type AppSettings = {
-  theme: ThemeId;
-  fontSize: number;
-  lineHeight: number;
-  maxWidth: number;
-  paragraphSpacing: number;
-  allowLargeImages: boolean;
-  maxPages: number;
-  advancedPages: boolean;
-  pdfMethod: "html2pdf";
-  fontFamily: string;
-  warnOnOfflineFont: boolean;
-};
-
-const themes: Record<ThemeId, Record<string, string>> = {
-  light: {
-    "--app-bg": "#f6f7f9",
-    "--panel-bg": "#ffffff",
-    "--panel-border": "#e5e7eb",
-    "--text-primary": "#1f2937",
-    "--text-muted": "#4b5563",
-    "--shadow-color": "rgba(15, 23, 42, 0.08)",
-    "--code-bg": "#0f172a",
-    "--code-text": "#e2e8f0",
-  },
-  dark: {
-    "--app-bg": "#0f172a",
-    "--panel-bg": "#111827",
-    "--panel-border": "#1f2937",
-    "--text-primary": "#f9fafb",
-    "--text-muted": "#9ca3af",
-    "--shadow-color": "rgba(0, 0, 0, 0.35)",
-    "--code-bg": "#111827",
-    "--code-text": "#f9fafb",
-  },
-  paper: {
-    "--app-bg": "#f3f0ea",
-    "--panel-bg": "#fffdf8",
-    "--panel-border": "#e7e2d9",
-    "--text-primary": "#3f3a30",
-    "--text-muted": "#6b6459",
-    "--shadow-color": "rgba(63, 58, 48, 0.12)",
-    "--code-bg": "#3f3a30",
-    "--code-text": "#f9f6ef",
-  },
-  terminal: {
-    "--app-bg": "#0b0f0c",
-    "--panel-bg": "#0f1412",
-    "--panel-border": "#1f2a25",
-    "--text-primary": "#c7f9cc",
-    "--text-muted": "#84cc9b",
-    "--shadow-color": "rgba(0, 0, 0, 0.4)",
-    "--code-bg": "#0b0f0c",
-    "--code-text": "#c7f9cc",
-  },
-};
+// Loaded before the first applySettings call; the theme editor keeps it
+// in sync with local storage.
+let customThemes = loadCustomThemes();
 
 const parseHeadingLevel = (value: string): HeadingLevel | null => {
   const numericLevel = Number(value.replace("h", ""));
@@ -112,41 +203,8 @@ const parseHeadingLevel = (value: string): HeadingLevel | null => {
   return numericLevel as HeadingLevel;
 };
 
-const defaultSettings: AppSettings = {
-  theme: "light",
-  fontSize: 15,
-  lineHeight: 1.6,
-  maxWidth: 170,
-  paragraphSpacing: 14,
-  allowLargeImages: false,
-  maxPages: 10,
-  advancedPages: false,
-  pdfMethod: "html2pdf",
-  fontFamily: "System",
-  warnOnOfflineFont: true,
-};
-
-const settingsKey = "mso-settings";
-
-const loadSettings = (): AppSettings => {
-  const raw = localStorage.getItem(settingsKey);
-  if (!raw) {
-    return defaultSettings;
-  }
-  try {
-    const parsed = JSON.parse(raw) as Partial<AppSettings>;
-    return { ...defaultSettings, ...parsed };
-  } catch {
-    return defaultSettings;
-  }
-};
-
-const saveSettings = (settings: AppSettings) => {
-  localStorage.setItem(settingsKey, JSON.stringify(settings));
-};
-
 const applySettings = (settings: AppSettings) => {
-  const themeVars = themes[settings.theme];
+  const themeVars = resolveTheme(settings.theme, customThemes).variables;
   Object.entries(themeVars).forEach(([key, value]) => {
     document.documentElement.style.setProperty(key, value);
   });
@@ -166,12 +224,32 @@ const applySettings = (settings: AppSettings) => {
     "--preview-paragraph-spacing",
     `${settings.paragraphSpacing}px`
   );
+  const { widthMm, heightMm } = resolvePageSize(settings);
+  document.documentElement.style.setProperty("--page-width", `${widthMm}mm`);
+  document.documentElement.style.setProperty("--page-height", `${heightMm}mm`);
+  const { margins, mirrored } = resolvePageMargins(settings);
+  MARGIN_SIDES.forEach((side) => {
+    document.documentElement.style.setProperty(
+      `--page-margin-${side}`,
+      `${margins[side]}mm`
+    );
+  });
+  document.documentElement.style.setProperty(
+    "--page-mirror-margins",
+    mirrored ? "1" : "0"
+  );
+  document.documentElement.style.setProperty(
+    "--preview-container-padding",
+    `${settings.previewPadding}px`
+  );
   document.documentElement.style.setProperty(
     "--preview-font-family",
     settings.fontFamily === "System"
       ? "system-ui, -apple-system, \"Segoe UI\", sans-serif"
       : `"${settings.fontFamily}", system-ui, -apple-system, "Segoe UI", sans-serif`
   );
+  applyUserCss(settings.userCss);
+  applyElementStyles(settings.elementStyles);
 };
 
 const starterText = `# Markdown Stylizer Online
@@ -181,6 +259,7 @@ Type Markdown on the left.
 - Live preview on the right
 - HTML is disabled
 - Output is sanitized
+- Force a new page with \`\\pagebreak\` on its own line
 
 \`\`\`ts
 console.log("Hello, world!");
@@ -207,21 +286,37 @@ if (app) {
           <h1>Markdown Stylizer Online</h1>
           <p>Milestone 3: themes + typography controls</p>
         </div>
+        <label class="header-control">
+          Preset
+          <select id="preset-select"></select>
+        </label>
         <label class="header-control">
           Theme
-          <select id="theme-select">
-            <option value="light">Light</option>
-            <option value="dark">Dark</option>
-            <option value="paper">Paper</option>
-            <option value="terminal">Terminal</option>
-          </select>
+          <select id="theme-select"></select>
         </label>
       </div>
     </header>
     <main class="workspace">
+      <aside class="pane library-pane" aria-label="Document library">
+        <div class="pane-title-row">
+          <div class="pane-title">Documents</div>
+          <button id="document-import" class="action-button library-new" type="button" title="Import a project bundle (.zip)">Import</button>
+          <button id="document-new" class="action-button library-new" type="button">New</button>
+          <input id="bundle-input" type="file" accept=".zip,application/zip" hidden />
+        </div>
+        <input id="document-search" class="library-search" type="search" placeholder="Search documents" aria-label="Search documents" />
+        <ul id="document-list" class="library-list"></ul>
+      </aside>
       <section class="pane">
         <div class="pane-title-row">
           <label class="pane-title" for="editor">Markdown</label>
+          <div class="pane-actions">
+            <button id="source-toggle" class="action-button pane-action" type="button" aria-pressed="false" title="Edit the markdown source directly">Source</button>
+            <button id="markdown-front-matter" class="action-button pane-action" type="button">Front-matter</button>
+            <button id="markdown-open" class="action-button pane-action" type="button">Open .md</button>
+            <button id="markdown-save" class="action-button pane-action" type="button">Save .md</button>
+          </div>
+          <input id="markdown-input" type="file" accept=".md,.markdown,.mdown,.mkd,.txt,text/markdown,text/plain" hidden />
         </div>
         <div class="editor-toolbar" role="toolbar" aria-label="Editor toolbar">
           <div class="toolbar-group toolbar-grid" role="group" aria-label="Text style">
@@ -322,6 +417,21 @@ if (app) {
                 <svg viewBox="0 0 24 24"><path d="M21 19V5c0-1.1-.9-2-2-2H5c-1.1 0-2 .9-2 2v14c0 1.1.9 2 2 2h14c1.1 0 2-.9 2-2zM5 5h14v9l-3.5-3.5-2.5 2.5-3.5-3.5L5 14V5zm0 14v-3l4-4 3.5 3.5 2.5-2.5L19 17v2H5z"/></svg>
               </span>
             </button>
+            <button type="button" id="insert-page-break" class="toolbar-button" aria-label="Page break" title="Page break">
+              <span class="toolbar-icon" aria-hidden="true">
+                <svg viewBox="0 0 24 24"><path d="M6 2h12v6H6V2zm2 2v2h8V4H8zM6 16h12v6H6v-6zm2 2v2h8v-2H8zM2 11h4v2H2v-2zm6 0h3v2H8v-2zm5 0h3v2h-3v-2zm5 0h4v2h-4v-2z"/></svg>
+              </span>
+            </button>
+            <button type="button" id="insert-toc" class="toolbar-button" aria-label="Table of contents" title="Table of contents">
+              <span class="toolbar-icon" aria-hidden="true">
+                <svg viewBox="0 0 24 24"><path d="M3 5h2v2H3V5zm4 0h14v2H7V5zM5 11h2v2H5v-2zm4 0h12v2H9v-2zm-2 6h2v2H7v-2zm4 0h10v2H11v-2z"/></svg>
+              </span>
+            </button>
+            <button type="button" id="insert-math" class="toolbar-button" aria-label="Formula" title="Formula (LaTeX)">
+              <span class="toolbar-icon" aria-hidden="true">
+                <svg viewBox="0 0 24 24"><path d="M5 4h14v3h-2V6H8.4l5.2 6-5.2 6H17v-1h2v3H5v-1.6L11 12 5 5.6V4z"/></svg>
+              </span>
+            </button>
           </div>
           <div class="toolbar-group" role="group" aria-label="History">
             <button type="button" class="toolbar-button toolbar-editor-button" data-action="undo" aria-label="Undo" title="Undo">
@@ -348,6 +458,11 @@ if (app) {
                 <svg viewBox="0 0 24 24"><path d="M3 5h18v14H3V5zm2 2v10h14V7H5z"/><path d="M7 9h10v6H7z"/></svg>
               </span>
             </button>
+            <button type="button" id="line-numbers-toggle" class="toolbar-button toolbar-toggle" aria-label="Code line numbers" title="Code line numbers">
+              <span class="toolbar-icon" aria-hidden="true">
+                <svg viewBox="0 0 24 24"><path d="M2 17h2v.5H3v1h1v.5H2v1h3v-4H2v1zm1-9h1V4H2v1h1v3zm-1 3h1.8L2 13.1v.9h3v-1H3.2L5 10.9V10H2v1zm5-6v2h14V5H7zm0 14h14v-2H7v2zm0-6h14v-2H7v2z"/></svg>
+              </span>
+            </button>
           </div>
           <div class="toolbar-group toolbar-group-wide" role="group" aria-label="Typography">
             <div class="toolbar-dropdown" data-dropdown="font-size">
@@ -416,6 +531,26 @@ if (app) {
             </div>
           </div>
           <div class="toolbar-group toolbar-group-wide layout-group" role="group" aria-label="Layout">
+            <div class="toolbar-dropdown" data-dropdown="page-size">
+              <button type="button" id="page-size-button" class="toolbar-button toolbar-button-wide" aria-haspopup="menu" aria-expanded="false">
+                <span class="toolbar-icon" aria-hidden="true">
+                  <svg viewBox="0 0 24 24"><path d="M6 2h9l5 5v15H6V2zm2 2v16h10V8h-4V4H8z"/></svg>
+                </span>
+                <span id="page-size-label">Page: A4</span>
+                <span class="toolbar-chevron" aria-hidden="true">▾</span>
+              </button>
+              <div id="page-size-menu" class="toolbar-menu" role="menu">
+                <button type="button" class="toolbar-menu-item" data-value="a4">A4 (210 × 297 mm)</button>
+                <button type="button" class="toolbar-menu-item" data-value="letter">Letter (8.5 × 11 in)</button>
+                <button type="button" class="toolbar-menu-item" data-value="legal">Legal (8.5 × 14 in)</button>
+                <button type="button" class="toolbar-menu-item" data-value="a5">A5 (148 × 210 mm)</button>
+                <button type="button" class="toolbar-menu-item" data-value="a3">A3 (297 × 420 mm)</button>
+                <button type="button" class="toolbar-menu-item" data-custom="page-size">Custom...</button>
+                <div class="toolbar-menu-divider" role="separator"></div>
+                <button type="button" class="toolbar-menu-item" data-orientation="portrait">Portrait</button>
+                <button type="button" class="toolbar-menu-item" data-orientation="landscape">Landscape</button>
+              </div>
+            </div>
             <div class="toolbar-dropdown" data-dropdown="margin">
               <button type="button" id="margin-button" class="toolbar-button toolbar-button-wide" aria-haspopup="menu" aria-expanded="false">
                 <span class="toolbar-icon" aria-hidden="true">
@@ -429,6 +564,7 @@ if (app) {
                 <button type="button" class="toolbar-menu-item" data-value="12">Compact</button>
                 <button type="button" class="toolbar-menu-item" data-value="20">Default</button>
                 <button type="button" class="toolbar-menu-item" data-value="28">Spacious</button>
+                <button type="button" class="toolbar-menu-item" data-custom="margins">Custom...</button>
               </div>
             </div>
             <div class="toolbar-dropdown" data-dropdown="padding">
@@ -444,8 +580,27 @@ if (app) {
                 <button type="button" class="toolbar-menu-item" data-value="12">Compact</button>
                 <button type="button" class="toolbar-menu-item" data-value="24">Default</button>
                 <button type="button" class="toolbar-menu-item" data-value="36">Spacious</button>
+                <button type="button" class="toolbar-menu-item" data-custom="padding">Custom...</button>
               </div>
             </div>
+            <button type="button" id="page-bands-button" class="toolbar-button toolbar-button-wide" aria-label="Header and footer">
+              <span class="toolbar-icon" aria-hidden="true">
+                <svg viewBox="0 0 24 24"><path d="M5 3h14v18H5V3zm2 2v2h10V5H7zm0 12v2h10v-2H7z"/></svg>
+              </span>
+              Header &amp; footer
+            </button>
+            <button type="button" id="element-styles-button" class="toolbar-button toolbar-button-wide" aria-label="Element styles">
+              <span class="toolbar-icon" aria-hidden="true">
+                <svg viewBox="0 0 24 24"><path d="M5 4v3h5.5v12h3V7H19V4H5zm-2 16h4v-2H3v2z"/></svg>
+              </span>
+              Element styles
+            </button>
+            <button type="button" id="user-css-button" class="toolbar-button toolbar-button-wide" aria-label="Document stylesheet">
+              <span class="toolbar-icon" aria-hidden="true">
+                <svg viewBox="0 0 24 24"><path d="M5 3l-.65 3.34h13.59L17.5 8.5H3.92l-.66 3.33h13.59l-.76 3.81-5.48 1.81-4.75-1.81.33-1.64H2.85l-.79 4 7.85 3 9.05-3 1.2-6.03.24-1.21L21.94 3H5z"/></svg>
+              </span>
+              Stylesheet
+            </button>
           </div>
           <div class="toolbar-group toolbar-group-wide export-group" role="group" aria-label="Export">
             <span class="toolbar-label override-label">Override page limit</span>
@@ -464,9 +619,9 @@ if (app) {
                 <span class="toolbar-chevron" aria-hidden="true">▾</span>
               </button>
               <div id="pdf-method-menu" class="toolbar-menu" role="menu">
-                <button type="button" class="toolbar-menu-item" data-value="html2pdf">html2pdf.js</button>
+                <button type="button" class="toolbar-menu-item" data-value="html2pdf">html2pdf.js (image)</button>
                 <button type="button" class="toolbar-menu-item" data-value="jspdf" data-disabled="true">jsPDF (future)</button>
-                <button type="button" class="toolbar-menu-item" data-value="pdflib" data-disabled="true">pdf-lib (future)</button>
+                <button type="button" class="toolbar-menu-item" data-value="pdflib">pdf-lib (vector text)</button>
               </div>
             </div>
             <label class="toolbar-input" aria-label="File name">
@@ -491,6 +646,18 @@ if (app) {
                 </span>
                 PDF
               </button>
+              <button id="export-html" class="toolbar-button toolbar-export-button" type="button" aria-label="Export standalone HTML">
+                <span class="toolbar-icon" aria-hidden="true">
+                  <svg viewBox="0 0 24 24"><path d="M6 2h9l5 5v15c0 1.1-.9 2-2 2H6c-1.1 0-2-.9-2-2V4c0-1.1.9-2 2-2zm8 1.5V8h4.5L14 3.5z"/><path d="M9.5 12.5 7 15l2.5 2.5 1-1L9 15l1.5-1.5-1-1zm5 0-1 1L15 15l-1.5 1.5 1 1L17 15l-2.5-2.5z"/></svg>
+                </span>
+                HTML
+              </button>
+              <button id="export-bundle" class="toolbar-button toolbar-export-button" type="button" aria-label="Export project bundle">
+                <span class="toolbar-icon" aria-hidden="true">
+                  <svg viewBox="0 0 24 24"><path d="M4 4h16v4H4V4zm1 5h14v11H5V9zm5 2v2h4v-2h-4z"/></svg>
+                </span>
+                Bundle
+              </button>
               <button id="rasterize-preview" class="toolbar-button toolbar-export-button" type="button" aria-label="Rasterize preview">
                 <span class="toolbar-icon" aria-hidden="true">
                   <svg viewBox="0 0 24 24"><path d="M4 5h16v14H4V5zm2 2v10h12V7H6z"/><path d="M8 9h8v6H8V9z"/></svg>
@@ -510,12 +677,15 @@ if (app) {
         </details>
         <input id="toolbar-image-input" type="file" accept="image/*" hidden />
         <div id="editor" class="editor"></div>
+        <textarea id="markdown-source" class="markdown-source" spellcheck="false" aria-label="Markdown source" hidden></textarea>
       </section>
       <section class="pane">
         <div class="pane-title">Preview</div>
         <div class="preview-scroll">
           <div class="page-shell">
             <div class="page-marker" aria-hidden="true"></div>
+            <div id="preview-header" class="page-band page-header" aria-hidden="true" hidden></div>
+            <div id="preview-footer" class="page-band page-footer" aria-hidden="true" hidden></div>
             <div id="preview" class="preview-content"></div>
           </div>
         </div>
@@ -526,6 +696,7 @@ if (app) {
         <span id="char-count">Chars: 0</span>
         <span id="word-count">Words: 0</span>
         <span id="line-count">Lines: 0</span>
+        <span id="save-status" class="save-status" role="status" aria-live="polite"></span>
       </div>
       <div class="footer-actions">
         <div id="offline-status" class="offline-status">Offline status: unknown</div>
@@ -537,14 +708,21 @@ if (app) {
   `;
 
   const editorRoot = app.querySelector<HTMLDivElement>("#editor");
+  const sourceEditor =
+    app.querySelector<HTMLTextAreaElement>("#markdown-source");
+  const sourceToggle = app.querySelector<HTMLButtonElement>("#source-toggle");
   const preview = app.querySelector<HTMLDivElement>("#preview");
   const themeSelect = app.querySelector<HTMLSelectElement>("#theme-select");
+  const presetSelect = app.querySelector<HTMLSelectElement>("#preset-select");
   const fontSelect = app.querySelector<HTMLSelectElement>("#font-select");
   const fontStatus = app.querySelector<HTMLDivElement>("#font-status");
   const allowLargeToggle =
     app.querySelector<HTMLButtonElement>("#allow-large-toggle");
   const showGuidesToggle =
     app.querySelector<HTMLButtonElement>("#show-guides-toggle");
+  const lineNumbersToggle = app.querySelector<HTMLButtonElement>(
+    "#line-numbers-toggle"
+  );
   const advancedPagesToggle =
     app.querySelector<HTMLButtonElement>("#advanced-pages-toggle");
   const fontSizeButton =
@@ -555,6 +733,8 @@ if (app) {
     app.querySelector<HTMLButtonElement>("#max-width-button");
   const paraSpacingButton =
     app.querySelector<HTMLButtonElement>("#para-spacing-button");
+  const pageSizeButton =
+    app.querySelector<HTMLButtonElement>("#page-size-button");
   const marginButton = app.querySelector<HTMLButtonElement>("#margin-button");
   const paddingButton =
     app.querySelector<HTMLButtonElement>("#padding-button");
@@ -569,6 +749,7 @@ if (app) {
     app.querySelector<HTMLSpanElement>("#max-width-label");
   const paraSpacingLabel =
     app.querySelector<HTMLSpanElement>("#para-spacing-label");
+  const pageSizeLabel = app.querySelector<HTMLSpanElement>("#page-size-label");
   const marginLabel = app.querySelector<HTMLSpanElement>("#margin-label");
   const paddingLabel = app.querySelector<HTMLSpanElement>("#padding-label");
   const maxPagesLabel = app.querySelector<HTMLSpanElement>("#max-pages-label");
@@ -580,6 +761,10 @@ if (app) {
     "#export-first-page"
   );
   const exportPdfButton = app.querySelector<HTMLButtonElement>("#export-pdf");
+  const exportHtmlButton =
+    app.querySelector<HTMLButtonElement>("#export-html");
+  const exportBundleButton =
+    app.querySelector<HTMLButtonElement>("#export-bundle");
   const rasterizePreview =
     app.querySelector<HTMLButtonElement>("#rasterize-preview");
   const exportStatus = app.querySelector<HTMLDivElement>("#export-status");
@@ -588,12 +773,43 @@ if (app) {
   const charCount = app.querySelector<HTMLSpanElement>("#char-count");
   const wordCount = app.querySelector<HTMLSpanElement>("#word-count");
   const lineCount = app.querySelector<HTMLSpanElement>("#line-count");
+  const saveStatus = app.querySelector<HTMLSpanElement>("#save-status");
   const settingsButton = app.querySelector<HTMLButtonElement>("#settings-button");
+  const mathButton = app.querySelector<HTMLButtonElement>("#insert-math");
+  const pageBreakButton =
+    app.querySelector<HTMLButtonElement>("#insert-page-break");
+  const tocButton = app.querySelector<HTMLButtonElement>("#insert-toc");
+  const pageBandsButton =
+    app.querySelector<HTMLButtonElement>("#page-bands-button");
+  const elementStylesButton = app.querySelector<HTMLButtonElement>(
+    "#element-styles-button"
+  );
+  const userCssButton =
+    app.querySelector<HTMLButtonElement>("#user-css-button");
+  const previewHeader = app.querySelector<HTMLDivElement>("#preview-header");
+  const previewFooter = app.querySelector<HTMLDivElement>("#preview-footer");
+  const documentNewButton =
+    app.querySelector<HTMLButtonElement>("#document-new");
+  const frontMatterButton = app.querySelector<HTMLButtonElement>(
+    "#markdown-front-matter"
+  );
+  const markdownOpenButton =
+    app.querySelector<HTMLButtonElement>("#markdown-open");
+  const markdownSaveButton =
+    app.querySelector<HTMLButtonElement>("#markdown-save");
+  const markdownInput = app.querySelector<HTMLInputElement>("#markdown-input");
+  const documentImportButton =
+    app.querySelector<HTMLButtonElement>("#document-import");
+  const bundleInput = app.querySelector<HTMLInputElement>("#bundle-input");
+  const documentSearch =
+    app.querySelector<HTMLInputElement>("#document-search");
+  const documentList = app.querySelector<HTMLUListElement>("#document-list");
   const fontSizeMenu = app.querySelector<HTMLDivElement>("#font-size-menu");
   const lineHeightMenu = app.querySelector<HTMLDivElement>("#line-height-menu");
   const maxWidthMenu = app.querySelector<HTMLDivElement>("#max-width-menu");
   const paraSpacingMenu =
     app.querySelector<HTMLDivElement>("#para-spacing-menu");
+  const pageSizeMenu = app.querySelector<HTMLDivElement>("#page-size-menu");
   const marginMenu = app.querySelector<HTMLDivElement>("#margin-menu");
   const paddingMenu = app.querySelector<HTMLDivElement>("#padding-menu");
   const pdfMethodMenu = app.querySelector<HTMLDivElement>("#pdf-method-menu");
@@ -606,17 +822,22 @@ if (app) {
 
   if (
     !editorRoot ||
+    !sourceEditor ||
+    !sourceToggle ||
     !preview ||
     !themeSelect ||
+    !presetSelect ||
     !fontSelect ||
     !fontStatus ||
     !allowLargeToggle ||
     !showGuidesToggle ||
+    !lineNumbersToggle ||
     !advancedPagesToggle ||
     !fontSizeButton ||
     !lineHeightButton ||
     !maxWidthButton ||
     !paraSpacingButton ||
+    !pageSizeButton ||
     !marginButton ||
     !paddingButton ||
     !maxPagesButton ||
@@ -625,6 +846,7 @@ if (app) {
     !lineHeightLabel ||
     !maxWidthLabel ||
     !paraSpacingLabel ||
+    !pageSizeLabel ||
     !marginLabel ||
     !paddingLabel ||
     !maxPagesLabel ||
@@ -633,6 +855,8 @@ if (app) {
     !exportPng ||
     !exportFirstPage ||
     !exportPdfButton ||
+    !exportHtmlButton ||
+    !exportBundleButton ||
     !rasterizePreview ||
     !exportStatus ||
     !imageStatus ||
@@ -642,11 +866,30 @@ if (app) {
     !charCount ||
     !wordCount ||
     !lineCount ||
+    !saveStatus ||
     !settingsButton ||
+    !pageBreakButton ||
+    !tocButton ||
+    !mathButton ||
+    !pageBandsButton ||
+    !elementStylesButton ||
+    !userCssButton ||
+    !previewHeader ||
+    !previewFooter ||
+    !documentNewButton ||
+    !documentImportButton ||
+    !frontMatterButton ||
+    !markdownOpenButton ||
+    !markdownSaveButton ||
+    !markdownInput ||
+    !bundleInput ||
+    !documentSearch ||
+    !documentList ||
     !fontSizeMenu ||
     !lineHeightMenu ||
     !maxWidthMenu ||
     !paraSpacingMenu ||
+    !pageSizeMenu ||
     !marginMenu ||
     !paddingMenu ||
     !pdfMethodMenu
@@ -654,10 +897,30 @@ if (app) {
     throw new Error("Editor or preview element missing.");
   }
 
-  const settings = loadSettings();
+  // Global settings are the saved defaults; `settings` is what the active
+  // document actually renders with once its own overrides are layered on top.
+  const { settings: globalSettings, issues: settingsIssues } = loadSettings();
+  const settings: AppSettings = { ...globalSettings };
   applySettings(settings);
 
-  themeSelect.value = settings.theme;
+  const populateThemeOptions = () => {
+    themeSelect.innerHTML = "";
+    builtInThemeIds.forEach((id) => {
+      themeSelect.add(new Option(builtInThemes[id].name, id));
+    });
+    if (customThemes.length > 0) {
+      const group = document.createElement("optgroup");
+      group.label = "Custom";
+      customThemes.forEach((theme) => {
+        group.appendChild(new Option(theme.name, theme.id));
+      });
+      themeSelect.appendChild(group);
+    }
+    themeSelect.add(new Option("Manage themes...", "__themes__"));
+    themeSelect.value = settings.theme;
+  };
+
+  populateThemeOptions();
   const updateFontStatusLabel = (status: FontStatus) => {
     const label =
       status === "cached"
@@ -669,11 +932,17 @@ if (app) {
     fontStatus.dataset.status = status;
   };
 
-  let currentMargin = 20;
-  let currentPadding = 24;
   let guidesEnabled = false;
+  let userPresets = loadPresets();
+  const allPresets = (): StylePreset[] => [...builtInPresets, ...userPresets];
+  // The front-matter block is kept out of the editor and re-attached to the
+  // markdown it produces; its values win over global and document settings.
+  let currentFrontMatter = "";
+  let frontMatterValues: FrontMatter = { settings: {} };
+  let frontMatterErrors = "";
   const pdfMethodLabels: Record<AppSettings["pdfMethod"], string> = {
     html2pdf: "html2pdf.js",
+    pdflib: "pdf-lib",
   };
 
   const refreshToolbarControls = () => {
@@ -681,14 +950,31 @@ if (app) {
     lineHeightLabel.textContent = settings.lineHeight.toFixed(2);
     maxWidthLabel.textContent = settings.maxWidth + " mm";
     paraSpacingLabel.textContent = settings.paragraphSpacing + " px";
+    pageSizeLabel.textContent = "Page: " + formatPageSize(settings);
+    pageSizeMenu
+      .querySelectorAll<HTMLButtonElement>("[data-orientation]")
+      .forEach((item) => {
+        item.classList.toggle(
+          "is-active",
+          item.dataset.orientation === settings.pageOrientation
+        );
+      });
     marginLabel.textContent =
-      "Margins: " + (currentMargin === 0 ? "None" : currentMargin + " mm");
+      "Margins: " +
+      formatMargins(settings.margins) +
+      (settings.mirrorMargins ? " mirrored" : "");
+    // The page uses smaller margins than chosen when they do not fit it.
+    marginButton.title = resolvePageMargins(settings).adjusted
+      ? "Reduced to fit the page size"
+      : "";
     paddingLabel.textContent =
-      "Padding: " + (currentPadding === 0 ? "None" : currentPadding + " px");
+      "Padding: " +
+      (settings.previewPadding === 0 ? "None" : settings.previewPadding + " px");
     maxPagesLabel.textContent = "Max pages: " + settings.maxPages;
     pdfMethodLabel.textContent = "PDF: " + pdfMethodLabels[settings.pdfMethod];
     allowLargeToggle.classList.toggle("is-active", settings.allowLargeImages);
     showGuidesToggle.classList.toggle("is-active", guidesEnabled);
+    lineNumbersToggle.classList.toggle("is-active", settings.codeLineNumbers);
     advancedPagesToggle.classList.toggle("is-active", settings.advancedPages);
     const checkboxIcon = advancedPagesToggle.querySelector<HTMLSpanElement>(
       ".toolbar-checkbox-icon"
@@ -701,16 +987,31 @@ if (app) {
       "aria-disabled",
       settings.advancedPages ? "false" : "true"
     );
-    document.documentElement.style.setProperty(
-      "--page-margin",
-      currentMargin + "mm"
-    );
-    document.documentElement.style.setProperty(
-      "--preview-container-padding",
-      currentPadding + "px"
-    );
+    presetSelect.value =
+      allPresets().find((preset) => presetMatches(preset, settings))?.id ?? "";
+  };
+
+  const populatePresetOptions = () => {
+    presetSelect.innerHTML = "";
+    const custom = new Option("Custom", "");
+    custom.disabled = true;
+    presetSelect.add(custom);
+    builtInPresets.forEach((preset) => {
+      presetSelect.add(new Option(preset.name, preset.id));
+    });
+    if (userPresets.length > 0) {
+      const group = document.createElement("optgroup");
+      group.label = "Saved";
+      userPresets.forEach((preset) => {
+        group.appendChild(new Option(preset.name, preset.id));
+      });
+      presetSelect.appendChild(group);
+    }
+    presetSelect.add(new Option("Save current as preset...", "__save__"));
+    presetSelect.add(new Option("Manage presets...", "__presets__"));
   };
 
+  populatePresetOptions();
   refreshToolbarControls();
 
   const populateFontOptions = () => {
@@ -734,6 +1035,24 @@ if (app) {
   };
 
   populateFontOptions();
+
+  const ensureFontOption = (familyName: string) => {
+    if (
+      !Array.from(fontSelect.options).some(
+        (option) => option.value === familyName
+      )
+    ) {
+      const option = document.createElement("option");
+      option.value = familyName;
+      option.textContent = familyName;
+      fontSelect.insertBefore(
+        option,
+        fontSelect.querySelector('option[value="__import__"]')
+      );
+    }
+  };
+
+  ensureFontOption(settings.fontFamily);
   fontSelect.value = settings.fontFamily;
 
   const setGuideVisibility = (enabled: boolean) => {
@@ -743,16 +1062,21 @@ if (app) {
     previewScroll?.classList.toggle("show-guides", enabled);
   };
 
-  const ensureFontLoaded = async (familyName: string) => {
+  // Element styles load their own families without touching the status
+  // label, which describes the document font.
+  const ensureFontLoaded = async (
+    familyName: string,
+    report: (status: FontStatus) => void = updateFontStatusLabel
+  ) => {
     if (familyName === "System") {
-      updateFontStatusLabel("cached");
+      report("cached");
       return;
     }
     const stored = getStoredVariants(familyName);
     if (stored) {
       try {
         await loadFontFamilyFromCache(familyName, stored);
-        updateFontStatusLabel("cached");
+        report("cached");
         return;
       } catch {
         // fall through to network load
@@ -762,23 +1086,100 @@ if (app) {
       const variants = stored ?? (await resolveFontVariants(familyName));
       storeFontVariants(familyName, variants);
       const status = await getFontCacheStatus(variants);
-      updateFontStatusLabel(status);
+      report(status);
       await loadFontFamily(familyName, variants);
-      updateFontStatusLabel("cached");
+      report("cached");
     } catch {
-      updateFontStatusLabel("error");
+      report("error");
     }
   };
 
+  const loadElementFonts = () => {
+    elementFontFamilies(settings.elementStyles).forEach((family) => {
+      void ensureFontLoaded(family, () => undefined);
+    });
+  };
+
   let currentMarkdown = starterText;
+  let activeDocument: LibraryDocument | null = null;
+  let libraryDocuments: LibraryDocument[] = [];
+  // The editor can report edits before the library has loaded, so these
+  // exist before it does; `restoreLibrary` keeps such edits.
+  let draftRestored = false;
+  let editedBeforeRestore = false;
+
+  // Both deferred so they can use helpers declared further down.
+  const persistDraftDebounced = debounce(() => {
+    void persistDraft();
+  }, 400);
+
+  const previewBandsDebounced = debounce(() => {
+    void updatePreviewBands();
+  }, 200);
+
+  const setStatus = (message: string) => {
+    imageStatus.textContent = message;
+    if (!message) {
+      imageStatus.classList.remove("status-visible");
+      return;
+    }
+    imageStatus.classList.add("status-visible");
+  };
+
+  if (settingsIssues.length > 0) {
+    setStatus(
+      `Some saved settings were invalid: ${settingsIssues.join("; ")}.`
+    );
+  }
+
+  const layerSettings = () => {
+    Object.assign(
+      settings,
+      globalSettings,
+      activeDocument?.settings,
+      frontMatterValues.settings
+    );
+    applySettings(settings);
+    setMarkdownExtensions(settings.markdownExtensions);
+    refreshToolbarControls();
+    themeSelect.value = settings.theme;
+    ensureFontOption(settings.fontFamily);
+    fontSelect.value = settings.fontFamily;
+    void ensureFontLoaded(settings.fontFamily);
+    loadElementFonts();
+  };
+
+  // Parsing only happens when the block itself changes, not on every edit.
+  const applyFrontMatter = (block: string) => {
+    if (block === currentFrontMatter) {
+      return;
+    }
+    const previous = frontMatterValues;
+    currentFrontMatter = block;
+    const { values, errors } = parseFrontMatter(block);
+    frontMatterValues = values;
+    if (
+      JSON.stringify(previous.settings) !== JSON.stringify(values.settings)
+    ) {
+      layerSettings();
+    }
+    const message = errors.length > 0 ? `Front-matter: ${errors.join(" ")}` : "";
+    if (message || frontMatterErrors) {
+      setStatus(message);
+    }
+    frontMatterErrors = message;
+  };
 
   const render = () => {
-    const rawHtml = md.render(currentMarkdown);
-    preview.innerHTML = DOMPurify.sanitize(rawHtml, {
-      ALLOWED_URI_REGEXP: /^(?:(?:https?|mailto|tel|appimg):|[^a-z]|[a-z+.\-]+(?:[^a-z+.\-:]|$))/i,
-    });
+    const { frontMatter, body } = splitFrontMatter(currentMarkdown);
+    applyFrontMatter(frontMatter);
+    setMarkdownExtensions(settings.markdownExtensions);
+    preview.innerHTML = renderMarkdown(body, { tocDepth: settings.tocDepth });
     void resolveAppImages(preview);
     applyImageOptions(preview);
+    applyCodeLineNumbers(preview, settings.codeLineNumbers);
+    void renderDiagrams(preview, settings.theme, customThemes);
+    previewBandsDebounced();
   };
 
   const renderDebounced = debounce(render, 120);
@@ -872,11 +1273,31 @@ if (app) {
     });
   };
 
+  // With a document open, its look stays with that document; only the
+  // app-wide keys reach the saved defaults.
   const updateSettings = (next: Partial<AppSettings>) => {
-    Object.assign(settings, next);
+    const appSettings: Partial<AppSettings> = { ...next };
+    if (activeDocument) {
+      documentSettingKeys.forEach((key) => {
+        delete appSettings[key];
+      });
+      const documentSettings = pickDocumentSettings(next);
+      if (Object.keys(documentSettings).length > 0) {
+        activeDocument.settings = {
+          ...activeDocument.settings,
+          ...documentSettings,
+        };
+        persistDraftDebounced();
+      }
+    }
+    if (Object.keys(appSettings).length > 0) {
+      Object.assign(globalSettings, appSettings);
+      saveSettings(globalSettings);
+    }
+    Object.assign(settings, next, frontMatterValues.settings);
     applySettings(settings);
-    saveSettings(settings);
     refreshToolbarControls();
+    previewBandsDebounced();
   };
 
   const editorInstance = new Editor({
@@ -889,13 +1310,23 @@ if (app) {
       TaskList,
       TaskItem.configure({ nested: true }),
       TextAlign.configure({ types: ["heading", "paragraph"] }),
+      PageBreak,
+      TableOfContents,
+      MathInline.configure({ editLatex: (latex) => editLatex(latex) }),
+      MathBlock.configure({ editLatex: (latex) => editLatex(latex) }),
+      HighlightMark,
+      SubscriptMark,
+      SuperscriptMark,
       Markdown,
     ],
     content: md.render(starterText),
     onUpdate: ({ editor }) => {
-      currentMarkdown = editor.storage.markdown.getMarkdown();
+      currentMarkdown =
+        currentFrontMatter + editor.storage.markdown.getMarkdown();
       renderDebounced();
       updateFooterStats();
+      editedBeforeRestore = editedBeforeRestore || !draftRestored;
+      persistDraftDebounced();
     },
     onSelectionUpdate: () => {
       updateToolbarState();
@@ -979,6 +1410,56 @@ if (app) {
       input.select();
     });
 
+  const promptText = (title: string, value: string): Promise<string | null> =>
+    new Promise((resolve) => {
+      const overlay = document.createElement("div");
+      overlay.className = "modal-overlay";
+      overlay.innerHTML = `
+        <div class="modal">
+          <h3>${title}</h3>
+          <input id="prompt-text-input" type="text" />
+          <div class="modal-actions">
+            <button id="prompt-cancel" type="button">Cancel</button>
+            <button id="prompt-confirm" type="button">Save</button>
+          </div>
+        </div>
+      `;
+      document.body.appendChild(overlay);
+
+      const input = overlay.querySelector<HTMLInputElement>("#prompt-text-input");
+      const cancel = overlay.querySelector<HTMLButtonElement>("#prompt-cancel");
+      const confirm = overlay.querySelector<HTMLButtonElement>(
+        "#prompt-confirm"
+      );
+
+      if (!input || !cancel || !confirm) {
+        overlay.remove();
+        resolve(null);
+        return;
+      }
+
+      const close = (result: string | null) => {
+        overlay.remove();
+        resolve(result);
+      };
+
+      input.value = value;
+      cancel.addEventListener("click", () => close(null));
+      confirm.addEventListener("click", () => close(input.value));
+      input.addEventListener("keydown", (event) => {
+        if (event.key === "Enter") {
+          close(input.value);
+        }
+      });
+      overlay.addEventListener("click", (event) => {
+        if (event.target === overlay) {
+          close(null);
+        }
+      });
+      input.focus();
+      input.select();
+    });
+
   const wireNumericDropdown = (options: {
     button: HTMLButtonElement;
     menu: HTMLDivElement;
@@ -1034,8 +1515,9 @@ if (app) {
     button: HTMLButtonElement;
     menu: HTMLDivElement;
     setValue: (value: number) => void;
+    onCustom?: () => void;
   }) => {
-    const { button, menu, setValue } = options;
+    const { button, menu, setValue, onCustom } = options;
     button.addEventListener("click", (event) => {
       event.stopPropagation();
       const parent = button.closest(".toolbar-dropdown");
@@ -1049,6 +1531,11 @@ if (app) {
       const target = (event.target as HTMLElement).closest<HTMLButtonElement>(
         ".toolbar-menu-item"
       );
+      if (target?.dataset.custom && onCustom) {
+        closeAllDropdowns();
+        onCustom();
+        return;
+      }
       if (!target || !target.dataset.value) {
         return;
       }
@@ -1060,8 +1547,67 @@ if (app) {
     });
   };
 
+  const applyPreset = (preset: StylePreset) => {
+    updateSettings({
+      ...preset.settings,
+      margins: { ...preset.settings.margins },
+    });
+    themeSelect.value = settings.theme;
+    ensureFontOption(settings.fontFamily);
+    fontSelect.value = settings.fontFamily;
+    void ensureFontLoaded(settings.fontFamily);
+    // Diagrams take their colours from the theme when they are drawn.
+    render();
+  };
+
+  const storePresets = () => {
+    savePresets(userPresets);
+    populatePresetOptions();
+    refreshToolbarControls();
+  };
+
+  const saveCurrentAsPreset = async () => {
+    const name = await promptText("Preset name", "My preset");
+    if (!name?.trim()) {
+      return;
+    }
+    userPresets = [
+      ...userPresets,
+      capturePreset(name.trim(), settings),
+    ];
+    storePresets();
+    setStatus(`Saved preset "${name.trim()}".`);
+  };
+
+  presetSelect.addEventListener("change", () => {
+    const value = presetSelect.value;
+    refreshToolbarControls();
+    if (value === "__save__") {
+      void saveCurrentAsPreset();
+      return;
+    }
+    if (value === "__presets__") {
+      buildPresetsDialog();
+      return;
+    }
+    const preset = allPresets().find((item) => item.id === value);
+    if (preset) {
+      applyPreset(preset);
+    }
+  });
+
   themeSelect.addEventListener("change", () => {
-    updateSettings({ theme: themeSelect.value as ThemeId });
+    if (themeSelect.value === "__themes__") {
+      themeSelect.value = settings.theme;
+      buildThemeEditorDialog();
+      return;
+    }
+    if (!isThemeId(themeSelect.value)) {
+      return;
+    }
+    updateSettings({ theme: themeSelect.value });
+    // Diagrams take their colours from the theme when they are drawn.
+    render();
   });
   fontSelect.addEventListener("change", async () => {
     if (fontSelect.value === "__import__") {
@@ -1081,6 +1627,10 @@ if (app) {
     setGuideVisibility(guidesEnabled);
     refreshToolbarControls();
   });
+  lineNumbersToggle.addEventListener("click", () => {
+    updateSettings({ codeLineNumbers: !settings.codeLineNumbers });
+    render();
+  });
   advancedPagesToggle.addEventListener("click", () => {
     updateSettings({ advancedPages: !settings.advancedPages });
   });
@@ -1091,9 +1641,7 @@ if (app) {
     title: "Custom font size",
     getValue: () => settings.fontSize,
     setValue: (value) => updateSettings({ fontSize: value }),
-    min: 12,
-    max: 20,
-    step: 1,
+    ...settingRanges.fontSize,
     suffix: "px",
   });
   wireNumericDropdown({
@@ -1102,9 +1650,7 @@ if (app) {
     title: "Custom line height",
     getValue: () => settings.lineHeight,
     setValue: (value) => updateSettings({ lineHeight: value }),
-    min: 1.3,
-    max: 2.0,
-    step: 0.05,
+    ...settingRanges.lineHeight,
     suffix: "",
   });
   wireNumericDropdown({
@@ -1113,9 +1659,7 @@ if (app) {
     title: "Custom max width",
     getValue: () => settings.maxWidth,
     setValue: (value) => updateSettings({ maxWidth: value }),
-    min: 120,
-    max: 210,
-    step: 5,
+    ...settingRanges.maxWidth,
     suffix: "mm",
   });
   wireNumericDropdown({
@@ -1124,27 +1668,84 @@ if (app) {
     title: "Custom paragraph spacing",
     getValue: () => settings.paragraphSpacing,
     setValue: (value) => updateSettings({ paragraphSpacing: value }),
-    min: 6,
-    max: 24,
-    step: 2,
+    ...settingRanges.paragraphSpacing,
     suffix: "px",
   });
 
   wirePresetDropdown({
     button: marginButton,
     menu: marginMenu!,
-    setValue: (value) => {
-      currentMargin = value;
-      refreshToolbarControls();
-    },
+    setValue: (value) => updateSettings({ margins: uniformMargins(value) }),
+    onCustom: () => buildMarginsDialog(),
   });
-  wirePresetDropdown({
+  wireNumericDropdown({
     button: paddingButton,
     menu: paddingMenu!,
-    setValue: (value) => {
-      currentPadding = value;
-      refreshToolbarControls();
-    },
+    title: "Custom padding",
+    getValue: () => settings.previewPadding,
+    setValue: (value) => updateSettings({ previewPadding: value }),
+    ...settingRanges.previewPadding,
+    suffix: "px",
+  });
+
+  pageSizeButton.addEventListener("click", (event) => {
+    event.stopPropagation();
+    const parent = pageSizeButton.closest(".toolbar-dropdown");
+    if (!parent) {
+      return;
+    }
+    const isOpen = parent.classList.toggle("open");
+    pageSizeButton.setAttribute("aria-expanded", isOpen ? "true" : "false");
+  });
+  pageSizeMenu.addEventListener("click", async (event) => {
+    const target = (event.target as HTMLElement).closest<HTMLButtonElement>(
+      ".toolbar-menu-item"
+    );
+    if (!target) {
+      return;
+    }
+    closeAllDropdowns();
+    const orientation = target.dataset.orientation;
+    if (orientation === "portrait" || orientation === "landscape") {
+      updateSettings({ pageOrientation: orientation });
+      return;
+    }
+    if (target.dataset.custom) {
+      const current = resolvePageSize(settings);
+      const width = await promptCustomNumber(
+        "Custom page width",
+        Math.round(current.widthMm),
+        MIN_PAGE_MM,
+        MAX_PAGE_MM,
+        1,
+        "mm"
+      );
+      if (width === null) {
+        return;
+      }
+      const height = await promptCustomNumber(
+        "Custom page height",
+        Math.round(current.heightMm),
+        MIN_PAGE_MM,
+        MAX_PAGE_MM,
+        1,
+        "mm"
+      );
+      if (height === null) {
+        return;
+      }
+      updateSettings({
+        pageSize: "custom",
+        customPageWidth: width,
+        customPageHeight: height,
+        pageOrientation: width > height ? "landscape" : "portrait",
+      });
+      return;
+    }
+    const value = target.dataset.value;
+    if (value && isPageSizeId(value)) {
+      updateSettings({ pageSize: value });
+    }
   });
 
   pdfMethodButton.addEventListener("click", (event) => {
@@ -1178,9 +1779,9 @@ if (app) {
     const custom = await promptCustomNumber(
       "Custom max pages",
       settings.maxPages,
-      1,
-      50,
-      1,
+      settingRanges.maxPages.min,
+      settingRanges.maxPages.max,
+      settingRanges.maxPages.step,
       "pages"
     );
     if (custom !== null) {
@@ -1209,6 +1810,31 @@ if (app) {
     });
   });
 
+  pageBreakButton.addEventListener("click", () => {
+    editorInstance.chain().focus().setPageBreak().run();
+  });
+
+  tocButton.addEventListener("click", () => {
+    editorInstance.chain().focus().setTableOfContents().run();
+  });
+
+  const editLatex = (latex: string) =>
+    promptText("Edit formula (LaTeX)", latex).then((value) =>
+      value?.trim() ? value.trim() : null
+    );
+
+  // On an empty line the formula becomes a display block, otherwise inline.
+  mathButton.addEventListener("click", async () => {
+    const latex = await promptText("Insert formula (LaTeX)", "");
+    if (!latex?.trim()) {
+      return;
+    }
+    const { $from, empty } = editorInstance.state.selection;
+    const display =
+      empty && $from.parent.isTextblock && $from.parent.content.size === 0;
+    editorInstance.chain().focus().insertMath(latex.trim(), display).run();
+  });
+
   document.addEventListener("click", () => {
     closeAllDropdowns();
   });
@@ -1218,15 +1844,6 @@ if (app) {
     }
   });
 
-  const setStatus = (message: string) => {
-    imageStatus.textContent = message;
-    if (!message) {
-      imageStatus.classList.remove("status-visible");
-      return;
-    }
-    imageStatus.classList.add("status-visible");
-  };
-
   const setExportStatus = (message: string) => {
     exportStatus.textContent = message;
     if (!message) {
@@ -1296,7 +1913,10 @@ if (app) {
     const errors: string[] = [];
 
     results.forEach((result) => {
-      if ("markdown" in result) {
+      if ("markdown" in result && sourceMode) {
+        inserted += 1;
+        insertSourceText(result.markdown);
+      } else if ("markdown" in result) {
         inserted += 1;
         editorInstance.commands.setImage({
           src: result.src,
@@ -1316,38 +1936,170 @@ if (app) {
     }
   };
 
-  editorRoot.addEventListener("paste", (event) => {
-    const items = event.clipboardData?.items;
-    if (!items) {
-      return;
-    }
-    const files: File[] = [];
-    Array.from(items).forEach((item) => {
-      if (item.kind === "file") {
-        const file = item.getAsFile();
-        if (file) {
-          files.push(file);
+  const dropTargets: HTMLElement[] = [editorRoot, sourceEditor];
+  dropTargets.forEach((target) => {
+    target.addEventListener("paste", (event) => {
+      const items = event.clipboardData?.items;
+      if (!items) {
+        return;
+      }
+      const files: File[] = [];
+      Array.from(items).forEach((item) => {
+        if (item.kind === "file") {
+          const file = item.getAsFile();
+          if (file) {
+            files.push(file);
+          }
         }
+      });
+      if (files.length > 0) {
+        event.preventDefault();
+        void handleImageFiles(files);
       }
     });
-    if (files.length > 0) {
-      event.preventDefault();
-      void handleImageFiles(files);
-    }
-  });
 
-  editorRoot.addEventListener("dragover", (event) => {
-    event.preventDefault();
+    target.addEventListener("dragover", (event) => {
+      event.preventDefault();
+    });
+
+    target.addEventListener("drop", (event) => {
+      const files = Array.from(event.dataTransfer?.files ?? []);
+      if (files.length === 0 && target === sourceEditor) {
+        // Let dragged text drop into the textarea as usual.
+        return;
+      }
+      event.preventDefault();
+      const markdownFile = files.find(isMarkdownFile);
+      if (markdownFile) {
+        void openMarkdownFile(markdownFile);
+        return;
+      }
+      if (files.length > 0) {
+        void handleImageFiles(files);
+      }
+    });
   });
 
-  editorRoot.addEventListener("drop", (event) => {
-    event.preventDefault();
-    const files = event.dataTransfer?.files;
-    if (files && files.length > 0) {
-      void handleImageFiles(files);
+  // Source mode edits the exact markdown text, including constructs the rich
+  // editor cannot represent; the rich editor is only reloaded on the way back.
+  let sourceMode = false;
+
+  const handleSourceInput = () => {
+    currentMarkdown = sourceEditor.value;
+    renderDebounced();
+    updateFooterStats();
+    editedBeforeRestore = editedBeforeRestore || !draftRestored;
+    persistDraftDebounced();
+  };
+
+  const insertSourceText = (text: string) => {
+    const { selectionStart, selectionEnd } = sourceEditor;
+    sourceEditor.setRangeText(text, selectionStart, selectionEnd, "end");
+    handleSourceInput();
+  };
+
+  const syncSourceEditor = () => {
+    if (sourceMode) {
+      sourceEditor.value = currentMarkdown;
+    }
+  };
+
+  const scrollSourceToCaret = () => {
+    const lineHeight = Number.parseFloat(
+      getComputedStyle(sourceEditor).lineHeight
+    );
+    const line = sourceEditor.value
+      .slice(0, sourceEditor.selectionStart)
+      .split("\n").length;
+    if (Number.isFinite(lineHeight)) {
+      sourceEditor.scrollTop = Math.max(
+        0,
+        (line - 1) * lineHeight - sourceEditor.clientHeight / 3
+      );
+    }
+  };
+
+  const showSourceMode = (enabled: boolean) => {
+    sourceMode = enabled;
+    sourceEditor.hidden = !enabled;
+    editorRoot.hidden = enabled;
+    // Formatting acts on the rich editor; images still insert into the source.
+    toolbarButtons.forEach((button) => {
+      button.disabled = enabled && button.dataset.action !== "image";
+    });
+    headingButtons.forEach((button) => {
+      button.disabled = enabled;
+    });
+    pageBreakButton.disabled = enabled;
+    tocButton.disabled = enabled;
+    mathButton.disabled = enabled;
+    sourceToggle.classList.toggle("is-active", enabled);
+    sourceToggle.setAttribute("aria-pressed", enabled ? "true" : "false");
+  };
+
+  const enterSourceMode = () => {
+    const { frontMatter, body } = splitFrontMatter(currentMarkdown);
+    const offset =
+      frontMatter.length + sourceOffsetFromEditor(editorInstance, body);
+    sourceEditor.value = currentMarkdown;
+    showSourceMode(true);
+    sourceEditor.focus();
+    sourceEditor.setSelectionRange(offset, offset);
+    scrollSourceToCaret();
+  };
+
+  const leaveSourceMode = (): boolean => {
+    const source = sourceEditor.value;
+    const { frontMatter, body } = splitFrontMatter(source);
+    editorInstance
+      .chain()
+      .setMeta("addToHistory", false)
+      .setContent(md.render(body))
+      .run();
+    const roundTrip = editorInstance.storage.markdown.getMarkdown();
+    if (
+      losesContent(body, roundTrip) &&
+      !window.confirm(
+        "The rich editor cannot keep some of this markdown (for example tables, footnotes or image options) and will change or drop it. Switch anyway?"
+      )
+    ) {
+      return false;
+    }
+    void resolveAppImages(editorRoot);
+    currentMarkdown = frontMatter + roundTrip;
+    showSourceMode(false);
+    focusEditorAtSource(
+      editorInstance,
+      body,
+      Math.max(0, sourceEditor.selectionStart - frontMatter.length)
+    );
+    render();
+    updateFooterStats();
+    updateToolbarState();
+    if (currentMarkdown !== source) {
+      persistDraftDebounced();
+    }
+    return true;
+  };
+
+  sourceEditor.addEventListener("input", handleSourceInput);
+
+  sourceToggle.addEventListener("click", () => {
+    if (sourceMode) {
+      if (leaveSourceMode()) {
+        updateSettings({ editorMode: "rich" });
+      }
+      return;
     }
+    enterSourceMode();
+    updateSettings({ editorMode: "source" });
   });
 
+  if (settings.editorMode === "source") {
+    showSourceMode(true);
+    sourceEditor.value = currentMarkdown;
+  }
+
   const updateFooterStats = () => {
     const text = currentMarkdown;
     charCount.textContent = `Chars: ${text.length}`;
@@ -1359,6 +2111,485 @@ if (app) {
 
   updateFooterStats();
 
+  const setSaveStatus = (message: string, status: "saved" | "error") => {
+    saveStatus.textContent = message;
+    saveStatus.dataset.status = status;
+  };
+
+  const formatTime = (timestamp: number) =>
+    new Date(timestamp).toLocaleTimeString([], {
+      hour: "2-digit",
+      minute: "2-digit",
+    });
+
+  const formatUpdatedAt = (timestamp: number) => {
+    const date = new Date(timestamp);
+    const today = new Date();
+    return date.toDateString() === today.toDateString()
+      ? formatTime(timestamp)
+      : date.toLocaleDateString();
+  };
+
+  const upsertLibraryDocument = (record: LibraryDocument) => {
+    libraryDocuments = [
+      record,
+      ...libraryDocuments.filter((doc) => doc.id !== record.id),
+    ].sort((a, b) => b.updatedAt - a.updatedAt);
+  };
+
+  const renderDocumentList = () => {
+    // Titles feed the {title} token, so renames and switches refresh bands.
+    previewBandsDebounced();
+    documentList.innerHTML = "";
+    const visible = searchDocuments(libraryDocuments, documentSearch.value);
+    if (visible.length === 0) {
+      const empty = document.createElement("li");
+      empty.className = "library-empty";
+      empty.textContent = libraryDocuments.length
+        ? "No matching documents."
+        : "No documents yet.";
+      documentList.appendChild(empty);
+      return;
+    }
+    visible.forEach((doc) => {
+      const item = document.createElement("li");
+      item.className = "library-item";
+      item.dataset.id = doc.id;
+      item.classList.toggle("is-active", doc.id === activeDocument?.id);
+
+      const open = document.createElement("button");
+      open.type = "button";
+      open.className = "library-open";
+      open.dataset.action = "open";
+      const title = document.createElement("span");
+      title.className = "library-item-title";
+      title.textContent = doc.title;
+      const meta = document.createElement("span");
+      meta.className = "library-item-meta";
+      meta.textContent = `Edited ${formatUpdatedAt(doc.updatedAt)}`;
+      open.append(title, meta);
+
+      const actions = document.createElement("div");
+      actions.className = "library-item-actions";
+      [
+        { action: "rename", label: "Rename", icon: "✎" },
+        { action: "duplicate", label: "Duplicate", icon: "⧉" },
+        { action: "delete", label: "Delete", icon: "✕" },
+      ].forEach(({ action, label, icon }) => {
+        const button = document.createElement("button");
+        button.type = "button";
+        button.className = "library-action";
+        button.dataset.action = action;
+        button.title = label;
+        button.setAttribute("aria-label", `${label} ${doc.title}`);
+        button.textContent = icon;
+        actions.appendChild(button);
+      });
+
+      item.append(open, actions);
+      documentList.appendChild(item);
+    });
+  };
+
+  const persistDraft = async () => {
+    if (!draftRestored || !activeDocument) {
+      return;
+    }
+    const target = activeDocument;
+    const markdown = currentMarkdown;
+    try {
+      await saveDraft(markdown, target.id);
+      const saved = await saveDocument({ ...target, markdown });
+      if (activeDocument?.id === saved.id) {
+        activeDocument = saved;
+      }
+      upsertLibraryDocument(saved);
+      renderDocumentList();
+      setSaveStatus(`Saved ${formatTime(saved.updatedAt)}`, "saved");
+    } catch {
+      setSaveStatus("Save failed", "error");
+    }
+  };
+
+  const openDocument = (doc: LibraryDocument, markdown = doc.markdown) => {
+    activeDocument = doc;
+    setActiveDocumentId(doc.id);
+    currentMarkdown = markdown;
+    const { frontMatter, body } = splitFrontMatter(markdown);
+    applyFrontMatter(frontMatter);
+    layerSettings();
+    editorInstance
+      .chain()
+      .setMeta("addToHistory", false)
+      .setContent(md.render(body))
+      .run();
+    void resolveAppImages(editorRoot);
+    syncSourceEditor();
+    render();
+    updateFooterStats();
+    updateToolbarState();
+    renderDocumentList();
+    if (
+      !sourceMode &&
+      losesContent(body, editorInstance.storage.markdown.getMarkdown())
+    ) {
+      setStatus(
+        "This document uses markdown the rich editor cannot keep. Switch to Source to edit it without losing anything."
+      );
+    }
+  };
+
+  const switchDocument = async (id: string) => {
+    if (id === activeDocument?.id) {
+      return;
+    }
+    await persistDraft();
+    const doc = await getLibraryDocument(id);
+    if (!doc) {
+      setSaveStatus("Document not found", "error");
+      return;
+    }
+    openDocument(doc);
+  };
+
+  const restoreLibrary = async () => {
+    try {
+      const [documents, draft] = await Promise.all([
+        listDocuments(),
+        loadDraft().catch(() => null),
+      ]);
+      libraryDocuments = documents;
+      // Text typed while loading becomes its own document, and on a first
+      // run the only one.
+      if (editedBeforeRestore) {
+        const created = await createDocument(currentMarkdown);
+        upsertLibraryDocument(created);
+        activeDocument = created;
+        setActiveDocumentId(created.id);
+        renderDocumentList();
+      } else {
+        if (libraryDocuments.length === 0) {
+          // First run, or a draft saved before the library existed.
+          libraryDocuments = [
+            await createDocument(draft?.markdown ?? currentMarkdown),
+          ];
+        }
+        const activeId = getActiveDocumentId();
+        const target =
+          libraryDocuments.find((doc) => doc.id === activeId) ??
+          libraryDocuments[0];
+        const useDraft =
+          draft &&
+          draft.documentId === target.id &&
+          draft.savedAt > target.updatedAt;
+        openDocument(target, useDraft ? draft.markdown : target.markdown);
+        setSaveStatus("Draft restored", "saved");
+      }
+    } catch {
+      setSaveStatus("Draft could not be restored", "error");
+    } finally {
+      draftRestored = true;
+    }
+  };
+
+  void restoreLibrary();
+
+  documentSearch.addEventListener("input", () => {
+    renderDocumentList();
+  });
+
+  documentNewButton.addEventListener("click", async () => {
+    await persistDraft();
+    try {
+      const created = await createDocument("");
+      upsertLibraryDocument(created);
+      openDocument(created);
+      editorInstance.commands.focus();
+    } catch {
+      setSaveStatus("Could not create document", "error");
+    }
+  });
+
+  // Opened files become new library documents so nothing open is replaced.
+  const openMarkdownFile = async (file: File) => {
+    await persistDraft();
+    try {
+      const markdown = await readMarkdownFile(file);
+      const created = await createDocument(markdown, {
+        title: titleFromMarkdown(markdown, titleFromFileName(file.name)),
+      });
+      upsertLibraryDocument(created);
+      openDocument(created);
+      if (!frontMatterErrors) {
+        setStatus(`Opened ${file.name}.`);
+      }
+    } catch (error) {
+      setStatus(
+        error instanceof Error ? error.message : "Could not open that file."
+      );
+    }
+  };
+
+  markdownOpenButton.addEventListener("click", () => {
+    markdownInput.click();
+  });
+
+  markdownInput.addEventListener("change", () => {
+    const file = markdownInput.files?.[0];
+    markdownInput.value = "";
+    if (file) {
+      void openMarkdownFile(file);
+    }
+  });
+
+  const buildMarkdownSaveDialog = () => {
+    const overlay = document.createElement("div");
+    overlay.className = "modal-overlay";
+    overlay.innerHTML = `
+      <div class="modal">
+        <h3>Save .md</h3>
+        <label class="modal-checkbox">
+          <input id="md-front-matter" type="checkbox" />
+          Add front-matter (title, author, date)
+        </label>
+        <fieldset class="modal-fieldset">
+          <legend>Pasted images</legend>
+          <label class="modal-checkbox">
+            <input type="radio" name="md-images" value="alongside" checked />
+            Save next to the file (ZIP)
+          </label>
+          <label class="modal-checkbox">
+            <input type="radio" name="md-images" value="inline" />
+            Inline as data URIs
+          </label>
+          <label class="modal-checkbox">
+            <input type="radio" name="md-images" value="keep" />
+            Keep app-only links
+          </label>
+        </fieldset>
+        <div class="modal-actions">
+          <button id="md-save-cancel" type="button">Cancel</button>
+          <button id="md-save-confirm" type="button">Save</button>
+        </div>
+      </div>
+    `;
+    document.body.appendChild(overlay);
+
+    const frontMatter =
+      overlay.querySelector<HTMLInputElement>("#md-front-matter");
+    const cancel = overlay.querySelector<HTMLButtonElement>("#md-save-cancel");
+    const confirm = overlay.querySelector<HTMLButtonElement>(
+      "#md-save-confirm"
+    );
+
+    if (!frontMatter || !cancel || !confirm) {
+      overlay.remove();
+      return;
+    }
+    // Existing front-matter is saved as written rather than regenerated.
+    if (currentFrontMatter) {
+      frontMatter.checked = true;
+      frontMatter.disabled = true;
+    }
+
+    cancel.addEventListener("click", () => overlay.remove());
+    overlay.addEventListener("click", (event) => {
+      if (event.target === overlay) {
+        overlay.remove();
+      }
+    });
+    confirm.addEventListener("click", async () => {
+      const mode =
+        overlay.querySelector<HTMLInputElement>(
+          'input[name="md-images"]:checked'
+        )?.value ?? "keep";
+      confirm.disabled = true;
+      try {
+        const { blob, fileName } = await buildMarkdownFile({
+          markdown: currentMarkdown,
+          baseName: getBaseFileName(),
+          frontMatter:
+            frontMatter.checked && !currentFrontMatter
+              ? {
+                  title: getDocumentTitle(),
+                  author: settings.pdfAuthor,
+                  date: new Date().toISOString().slice(0, 10),
+                }
+              : null,
+          images: mode as MarkdownImageMode,
+        });
+        downloadBlob(blob, fileName);
+        setStatus(`Saved ${fileName}.`);
+        overlay.remove();
+      } catch (error) {
+        setStatus(
+          error instanceof Error ? error.message : "Could not save the file."
+        );
+        confirm.disabled = false;
+      }
+    });
+  };
+
+  markdownSaveButton.addEventListener("click", buildMarkdownSaveDialog);
+
+  const buildFrontMatterDialog = () => {
+    const overlay = document.createElement("div");
+    overlay.className = "modal-overlay";
+    overlay.innerHTML = `
+      <div class="modal">
+        <h3>Front-matter</h3>
+        <label>
+          YAML
+          <textarea id="front-matter-source" class="front-matter-source" rows="10" spellcheck="false"></textarea>
+          <span class="modal-hint">Keys: title, author, date, theme, font, fontSize, lineHeight, pageSize, orientation, margin (mm), tocDepth, filename</span>
+        </label>
+        <div class="modal-actions">
+          <button id="front-matter-cancel" type="button">Cancel</button>
+          <button id="front-matter-apply" type="button">Apply</button>
+        </div>
+      </div>
+    `;
+    document.body.appendChild(overlay);
+
+    const source = overlay.querySelector<HTMLTextAreaElement>(
+      "#front-matter-source"
+    );
+    const cancel = overlay.querySelector<HTMLButtonElement>(
+      "#front-matter-cancel"
+    );
+    const apply = overlay.querySelector<HTMLButtonElement>(
+      "#front-matter-apply"
+    );
+
+    if (!source || !cancel || !apply) {
+      overlay.remove();
+      return;
+    }
+
+    source.value = frontMatterSource(currentFrontMatter);
+    source.placeholder = "title: Quarterly report\nauthor: Jane Doe\ntheme: paper";
+    source.focus();
+
+    cancel.addEventListener("click", () => overlay.remove());
+    overlay.addEventListener("click", (event) => {
+      if (event.target === overlay) {
+        overlay.remove();
+      }
+    });
+    apply.addEventListener("click", () => {
+      const { body } = splitFrontMatter(currentMarkdown);
+      currentMarkdown = wrapFrontMatter(source.value) + body;
+      syncSourceEditor();
+      render();
+      updateFooterStats();
+      persistDraftDebounced();
+      overlay.remove();
+    });
+  };
+
+  frontMatterButton.addEventListener("click", buildFrontMatterDialog);
+
+  documentImportButton.addEventListener("click", () => {
+    bundleInput.click();
+  });
+
+  bundleInput.addEventListener("change", async () => {
+    const file = bundleInput.files?.[0];
+    bundleInput.value = "";
+    if (!file) {
+      return;
+    }
+    await persistDraft();
+    try {
+      const imported = await readBundle(file);
+      const created = await createDocument(imported.markdown, {
+        title: imported.title,
+        settings: imported.settings,
+      });
+      if (Object.keys(imported.appSettings).length > 0) {
+        updateSettings(imported.appSettings);
+      }
+      upsertLibraryDocument(created);
+      openDocument(created);
+      setSaveStatus(
+        imported.missingImages > 0
+          ? `Imported; ${imported.missingImages} image${
+              imported.missingImages > 1 ? "s" : ""
+            } could not be restored`
+          : "Bundle imported",
+        imported.missingImages > 0 ? "error" : "saved"
+      );
+    } catch (error) {
+      setSaveStatus(
+        error instanceof Error ? error.message : "Bundle import failed",
+        "error"
+      );
+    }
+  });
+
+  documentList.addEventListener("click", async (event) => {
+    const target = (event.target as HTMLElement).closest<HTMLButtonElement>(
+      "button[data-action]"
+    );
+    const id = target?.closest<HTMLLIElement>(".library-item")?.dataset.id;
+    if (!target || !id) {
+      return;
+    }
+    const action = target.dataset.action;
+    try {
+      if (action === "open") {
+        await switchDocument(id);
+        return;
+      }
+      await persistDraft();
+      const doc = await getLibraryDocument(id);
+      if (!doc) {
+        setSaveStatus("Document not found", "error");
+        return;
+      }
+      if (action === "rename") {
+        const title = await promptText("Rename document", doc.title);
+        if (title === null) {
+          return;
+        }
+        const renamed = await renameDocument(doc, title);
+        if (activeDocument?.id === renamed.id) {
+          activeDocument = renamed;
+        }
+        upsertLibraryDocument(renamed);
+        renderDocumentList();
+      } else if (action === "duplicate") {
+        const copy = await duplicateDocument(doc);
+        upsertLibraryDocument(copy);
+        openDocument(copy);
+      } else if (action === "delete") {
+        if (!window.confirm(`Delete "${doc.title}"? This cannot be undone.`)) {
+          return;
+        }
+        await removeDocument(doc.id);
+        libraryDocuments = libraryDocuments.filter((item) => item.id !== doc.id);
+        if (activeDocument?.id === doc.id) {
+          const next = libraryDocuments[0] ?? (await createDocument(""));
+          upsertLibraryDocument(next);
+          openDocument(next);
+        } else {
+          renderDocumentList();
+        }
+      }
+    } catch {
+      setSaveStatus("Library update failed", "error");
+    }
+  });
+
+  document.addEventListener("visibilitychange", () => {
+    if (document.visibilityState === "hidden") {
+      void persistDraft();
+    }
+  });
+  window.addEventListener("pagehide", () => {
+    void persistDraft();
+  });
+
   const getEffectiveMaxPages = () =>
     settings.advancedPages ? settings.maxPages : 10;
 
@@ -1372,6 +2603,7 @@ if (app) {
       pageShell,
       maxPages: getEffectiveMaxPages(),
       scale: 2,
+      bands: getPageBands(),
     });
   };
 
@@ -1391,26 +2623,111 @@ if (app) {
     return cleaned.slice(0, 60);
   };
 
+  const firstHeading = (markdown: string): string | null =>
+    markdown.match(/^#\s+(.+)$/m)?.[1].trim() || null;
+
   const fallbackFromMarkdown = (markdown: string): string | null => {
-    const match = markdown.match(/^#\s+(.+)$/m);
-    if (!match) {
+    const heading = firstHeading(markdown);
+    if (!heading) {
       return null;
     }
-    return sanitizeFileName(match[1]);
+    return sanitizeFileName(heading);
   };
 
+  const getDocumentBody = () => splitFrontMatter(currentMarkdown).body;
+
   const getBaseFileName = (): string => {
     const inputValue = sanitizeFileName(fileNameInput.value);
     if (inputValue) {
       return inputValue;
     }
-    const headerValue = fallbackFromMarkdown(currentMarkdown);
+    const { fileName, title } = frontMatterValues;
+    const frontMatterValue = sanitizeFileName(fileName ?? title ?? "");
+    if (frontMatterValue) {
+      return frontMatterValue;
+    }
+    const headerValue = fallbackFromMarkdown(getDocumentBody());
     if (headerValue) {
       return headerValue;
     }
     return `document-${Date.now().toString(36)}`;
   };
 
+  const getDocumentTitle = (): string =>
+    frontMatterValues.title ??
+    firstHeading(getDocumentBody()) ??
+    activeDocument?.title ??
+    getBaseFileName();
+
+  const getDocumentDate = (): Date => {
+    const date = frontMatterValues.date
+      ? new Date(frontMatterValues.date)
+      : new Date();
+    return Number.isNaN(date.getTime()) ? new Date() : date;
+  };
+
+  const getPdfMetadata = (): PdfMetadata => ({
+    title: getDocumentTitle(),
+    author: (frontMatterValues.author ?? settings.pdfAuthor).trim(),
+    subject: settings.pdfSubject.trim(),
+    keywords: settings.pdfKeywords
+      .split(",")
+      .map((keyword) => keyword.trim())
+      .filter(Boolean),
+    createdAt: getDocumentDate(),
+  });
+
+  const getPageBands = (): PageBands => ({
+    header: settings.header,
+    footer: settings.footer,
+    skipFirstPage: settings.hideBandsOnFirstPage,
+    title:
+      frontMatterValues.title ??
+      activeDocument?.title ??
+      titleFromMarkdown(currentMarkdown),
+    fileName: getBaseFileName(),
+    date: frontMatterValues.date ?? new Date().toLocaleDateString(),
+  });
+
+  let previewBandsRequest = 0;
+
+  // The preview is one continuous page, so only page 1's bands are shown.
+  const updatePreviewBands = async () => {
+    const request = (previewBandsRequest += 1);
+    const bands = getPageBands();
+    const visible = !bands.skipFirstPage;
+    let pageCount = 1;
+    if (visible && bandsUseToken([bands.header, bands.footer], "{pages}")) {
+      try {
+        const pagination = await measurePagination(
+          preview,
+          getEffectiveMaxPages()
+        );
+        pageCount = pagination.pageCount;
+      } catch {
+        pageCount = 1;
+      }
+    }
+    if (request !== previewBandsRequest) {
+      return;
+    }
+    const targets: Array<[HTMLDivElement, RunningBand]> = [
+      [previewHeader, bands.header],
+      [previewFooter, bands.footer],
+    ];
+    targets.forEach(([node, band]) => {
+      const show = visible && hasBandContent(band);
+      node.hidden = !show;
+      if (show) {
+        fillBandNode(node, band, bands, 1, pageCount);
+      } else {
+        node.innerHTML = "";
+      }
+    });
+  };
+
+  fileNameInput.addEventListener("input", previewBandsDebounced);
+
   exportPng.addEventListener("click", async () => {
     const pageShell = app.querySelector<HTMLElement>(".page-shell");
     if (!pageShell) {
@@ -1433,6 +2750,7 @@ if (app) {
         pageShell,
         maxPages: getEffectiveMaxPages(),
         scale: 2,
+        bands: getPageBands(),
         fileName: `${getBaseFileName()}.zip`,
         onProgress: ({ step, current, total }) => {
           if (step === "zip" && current && total) {
@@ -1481,6 +2799,7 @@ if (app) {
         pageShell,
         maxPages: 1,
         scale: 2,
+        bands: getPageBands(),
       });
       const first = result.pages[0];
       if (!first) {
@@ -1515,10 +2834,14 @@ if (app) {
     exportPdfButton.disabled = true;
     setExportStatus("Preparing PDF...");
     try {
-      await exportPdf({
+      const runExport =
+        settings.pdfMethod === "pdflib" ? exportVectorPdf : exportPdf;
+      await runExport({
         previewContent: preview,
         pageShell,
         maxPages: getEffectiveMaxPages(),
+        bands: getPageBands(),
+        metadata: getPdfMetadata(),
         fileName: `${getBaseFileName()}.pdf`,
         onProgress: ({ step, pageCount, clamped }) => {
           if (step === "measure" && pageCount) {
@@ -1549,19 +2872,69 @@ if (app) {
     }
   });
 
-  rasterizePreview.addEventListener("click", async () => {
-    const pageShell = app.querySelector<HTMLElement>(".page-shell");
-    if (!pageShell) {
-      throw new Error("Page shell missing.");
-    }
-    rasterizePreview.disabled = true;
-    setExportStatus("Rasterizing preview...");
+  exportHtmlButton.addEventListener("click", async () => {
+    exportHtmlButton.disabled = true;
+    setExportStatus("Preparing HTML...");
     try {
-      const result = await rasterizePages({
+      await exportHtml({
         previewContent: preview,
-        pageShell,
-        maxPages: getEffectiveMaxPages(),
-        scale: 2,
+        title: getDocumentTitle(),
+        fontFamilies: [
+          settings.fontFamily,
+          ...elementFontFamilies(settings.elementStyles),
+        ],
+        fileName: `${getBaseFileName()}.html`,
+      });
+      setExportStatus("Download started.");
+    } catch (error) {
+      setExportStatus(
+        error instanceof Error ? error.message : "Export failed."
+      );
+    } finally {
+      exportHtmlButton.disabled = false;
+    }
+  });
+
+  exportBundleButton.addEventListener("click", async () => {
+    const includeFonts =
+      settings.fontFamily !== "System" &&
+      window.confirm(
+        `Include the "${settings.fontFamily}" font files so the bundle works offline?`
+      );
+    exportBundleButton.disabled = true;
+    setExportStatus("Preparing bundle...");
+    try {
+      const bundle = await createBundle({
+        title: activeDocument?.title ?? getDocumentTitle(),
+        markdown: currentMarkdown,
+        settings,
+        includeFonts,
+      });
+      downloadBlob(bundle, `${getBaseFileName()}.mso.zip`);
+      setExportStatus("Download started.");
+    } catch (error) {
+      setExportStatus(
+        error instanceof Error ? error.message : "Export failed."
+      );
+    } finally {
+      exportBundleButton.disabled = false;
+    }
+  });
+
+  rasterizePreview.addEventListener("click", async () => {
+    const pageShell = app.querySelector<HTMLElement>(".page-shell");
+    if (!pageShell) {
+      throw new Error("Page shell missing.");
+    }
+    rasterizePreview.disabled = true;
+    setExportStatus("Rasterizing preview...");
+    try {
+      const result = await rasterizePages({
+        previewContent: preview,
+        pageShell,
+        maxPages: getEffectiveMaxPages(),
+        scale: 2,
+        bands: getPageBands(),
       });
       if (result.pages[0]) {
         window.open(result.pages[0], "_blank", "noopener,noreferrer");
@@ -1646,19 +3019,7 @@ if (app) {
         updateSettings({ fontFamily: normalized.familyName });
         const statusValue = await getFontCacheStatus(variants);
         updateFontStatusLabel(statusValue);
-        if (
-          !Array.from(fontSelect.options).some(
-            (option) => option.value === normalized.familyName
-          )
-        ) {
-          const option = document.createElement("option");
-          option.value = normalized.familyName;
-          option.textContent = normalized.familyName;
-          fontSelect.insertBefore(
-            option,
-            fontSelect.querySelector('option[value="__import__"]')
-          );
-        }
+        ensureFontOption(normalized.familyName);
         fontSelect.value = normalized.familyName;
         setImportStatus("Font imported.");
         window.setTimeout(() => overlay.remove(), 600);
@@ -1680,6 +3041,7 @@ if (app) {
 
   updateFontStatusLabel("not_cached");
   void ensureFontLoaded(settings.fontFamily);
+  loadElementFonts();
   setGuideVisibility(false);
 
   const updateOfflineStatus = async () => {
@@ -1719,13 +3081,78 @@ if (app) {
   });
   void updateOfflineStatus();
 
+  const storageClearPrompts: Record<StorageAreaId, string> = {
+    settings: "Reset all app settings to their defaults?",
+    fontList:
+      "Forget the list of imported fonts? They have to be imported again.",
+    images:
+      "Delete every stored image? Documents that use them will show " +
+      "missing images. This cannot be undone.",
+    fontFiles:
+      "Delete the downloaded font files? They download again when needed.",
+    appFiles:
+      "Delete the offline copy of the app? It is cached again on the next " +
+      "online visit.",
+  };
+
   const buildSettingsDialog = () => {
     const overlay = document.createElement("div");
     overlay.className = "modal-overlay";
     overlay.innerHTML = `
-      <div class="modal">
+      <div class="modal settings-modal">
         <h3>Settings</h3>
-        <button id="reset-warnings" type="button">Reset warning flags</button>
+        <div class="settings-section">
+          <span class="settings-section-label">PDF properties</span>
+          <input id="pdf-author" type="text" placeholder="Author" aria-label="PDF author" />
+          <input id="pdf-subject" type="text" placeholder="Subject (this document)" aria-label="PDF subject" />
+          <input id="pdf-keywords" type="text" placeholder="Keywords, comma separated (this document)" aria-label="PDF keywords" />
+        </div>
+        <div class="settings-section">
+          <span class="settings-section-label">Markdown extensions (this document)</span>
+          ${MARKDOWN_EXTENSIONS.map(
+            ({ id, label, example }) => `
+          <label class="modal-checkbox" title="${example}">
+            <input type="checkbox" data-extension="${id}" />
+            ${label}
+          </label>`
+          ).join("")}
+        </div>
+        <div class="settings-section">
+          <span class="settings-section-label">Table of contents (this document)</span>
+          <select id="toc-depth" aria-label="Table of contents depth">
+            ${[1, 2, 3, 4, 5, 6]
+              .map(
+                (level) =>
+                  `<option value="${level}">Headings up to H${level}</option>`
+              )
+              .join("")}
+          </select>
+        </div>
+        <div class="settings-section">
+          <span class="settings-section-label">Reset to defaults</span>
+          <div class="theme-editor-actions">
+            ${settingSections
+              .map(
+                ({ id, label }) =>
+                  `<button type="button" data-reset-section="${id}">${label}</button>`
+              )
+              .join("")}
+          </div>
+        </div>
+        <div class="settings-section">
+          <span class="settings-section-label">Backup</span>
+          <div class="theme-editor-actions">
+            <button id="settings-export" type="button">Export</button>
+            <button id="settings-import" type="button">Import...</button>
+          </div>
+          <input id="settings-import-input" type="file" accept=".json,application/json" hidden />
+          <div id="settings-import-preview" class="settings-import-preview" hidden></div>
+          <span id="settings-hint" class="modal-hint">Saves settings, imported fonts, presets and custom themes to a JSON file.</span>
+        </div>
+        <div class="settings-section">
+          <span class="settings-section-label">Storage</span>
+          <ul id="storage-usage" class="storage-usage"></ul>
+        </div>
         <div class="modal-actions">
           <button id="settings-close" type="button">Close</button>
         </div>
@@ -1733,26 +3160,1318 @@ if (app) {
     `;
     document.body.appendChild(overlay);
 
-    const resetWarnings = overlay.querySelector<HTMLButtonElement>(
-      "#reset-warnings"
-    );
     const close = overlay.querySelector<HTMLButtonElement>("#settings-close");
+    const pdfAuthor = overlay.querySelector<HTMLInputElement>("#pdf-author");
+    const pdfSubject = overlay.querySelector<HTMLInputElement>("#pdf-subject");
+    const pdfKeywords =
+      overlay.querySelector<HTMLInputElement>("#pdf-keywords");
+    const tocDepth = overlay.querySelector<HTMLSelectElement>("#toc-depth");
+    const exportButton =
+      overlay.querySelector<HTMLButtonElement>("#settings-export");
+    const importButton =
+      overlay.querySelector<HTMLButtonElement>("#settings-import");
+    const importInput = overlay.querySelector<HTMLInputElement>(
+      "#settings-import-input"
+    );
+    const preview = overlay.querySelector<HTMLDivElement>(
+      "#settings-import-preview"
+    );
+    const hint = overlay.querySelector<HTMLSpanElement>("#settings-hint");
+    const storageList =
+      overlay.querySelector<HTMLUListElement>("#storage-usage");
 
-    if (!resetWarnings || !close) {
+    if (
+      !close ||
+      !pdfAuthor ||
+      !pdfSubject ||
+      !pdfKeywords ||
+      !tocDepth ||
+      !exportButton ||
+      !importButton ||
+      !importInput ||
+      !preview ||
+      !hint ||
+      !storageList
+    ) {
       overlay.remove();
       return;
     }
 
-    resetWarnings.addEventListener("click", () => {
-      updateSettings({ warnOnOfflineFont: true });
+    const extensionInputs = overlay.querySelectorAll<HTMLInputElement>(
+      "input[data-extension]"
+    );
+
+    // Resets and imports change settings behind the open dialog.
+    const showFields = () => {
+      pdfAuthor.value = settings.pdfAuthor;
+      pdfSubject.value = settings.pdfSubject;
+      pdfKeywords.value = settings.pdfKeywords;
+      extensionInputs.forEach((input) => {
+        input.checked = settings.markdownExtensions.some(
+          (id) => id === input.dataset.extension
+        );
+      });
+      tocDepth.value = String(settings.tocDepth);
+    };
+
+    // Resets and imports change the app-wide defaults, which `updateSettings`
+    // keeps for the open document instead. A reset also drops the document's
+    // own values for `resetKeys` so the defaults show through.
+    const replaceSettings = (
+      next: Partial<AppSettings>,
+      resetKeys: Array<keyof AppSettings> = []
+    ) => {
+      Object.assign(globalSettings, next);
+      saveSettings(globalSettings);
+      if (activeDocument && resetKeys.length > 0) {
+        const documentSettings: Partial<AppSettings> = {
+          ...activeDocument.settings,
+        };
+        resetKeys.forEach((key) => {
+          delete documentSettings[key];
+        });
+        activeDocument.settings = pickDocumentSettings(documentSettings);
+        persistDraftDebounced();
+      }
+      layerSettings();
+      render();
+      previewBandsDebounced();
+      showFields();
+    };
+
+    pdfAuthor.addEventListener("change", () => {
+      updateSettings({ pdfAuthor: pdfAuthor.value });
+    });
+    pdfSubject.addEventListener("change", () => {
+      updateSettings({ pdfSubject: pdfSubject.value });
+    });
+    pdfKeywords.addEventListener("change", () => {
+      updateSettings({ pdfKeywords: pdfKeywords.value });
+    });
+
+    extensionInputs.forEach((input) => {
+      input.addEventListener("change", () => {
+        updateSettings({
+          markdownExtensions: Array.from(extensionInputs)
+            .filter((item) => item.checked)
+            .map((item) => item.dataset.extension)
+            .filter(isMarkdownExtensionId),
+        });
+        render();
+      });
+    });
+
+    tocDepth.addEventListener("change", () => {
+      const depth = Number(tocDepth.value);
+      if (isHeadingLevel(depth)) {
+        updateSettings({ tocDepth: depth });
+        render();
+      }
     });
+
+    overlay
+      .querySelectorAll<HTMLButtonElement>("button[data-reset-section]")
+      .forEach((button) => {
+        const section = settingSections.find(
+          (item) => item.id === button.dataset.resetSection
+        );
+        if (!section) {
+          return;
+        }
+        button.addEventListener("click", () => {
+          if (
+            !window.confirm(`Reset "${section.label}" to the default settings?`)
+          ) {
+            return;
+          }
+          const defaults: Partial<AppSettings> = {};
+          section.keys.forEach((key) => {
+            Object.assign(defaults, { [key]: defaultSettings[key] });
+          });
+          replaceSettings(defaults, section.keys);
+          hint.textContent = `Reset ${section.label.toLowerCase()}.`;
+        });
+      });
+
+    exportButton.addEventListener("click", () => {
+      downloadBlob(
+        new Blob(
+          [
+            serializeSettingsBackup({
+              settings: globalSettings,
+              fonts: getFontVariantStore(),
+              presets: userPresets,
+              themes: customThemes,
+            }),
+          ],
+          { type: "application/json" }
+        ),
+        "markdown-stylizer.settings.json"
+      );
+      hint.textContent = "Download started.";
+    });
+
+    const plural = (count: number, noun: string) =>
+      `${count} ${noun}${count === 1 ? "" : "s"}`;
+
+    // Saved presets and themes with the same id are replaced; everything
+    // else in the file is added alongside what is already stored.
+    const applyBackup = (backup: SettingsBackup) => {
+      const themeIds = new Set(backup.themes.map((theme) => theme.id));
+      customThemes = [
+        ...customThemes.filter((theme) => !themeIds.has(theme.id)),
+        ...backup.themes,
+      ];
+      saveCustomThemes(customThemes);
+      populateThemeOptions();
+      const presetIds = new Set(backup.presets.map((preset) => preset.id));
+      userPresets = [
+        ...userPresets.filter((preset) => !presetIds.has(preset.id)),
+        ...backup.presets,
+      ];
+      storePresets();
+      Object.entries(backup.fonts).forEach(([familyName, variants]) => {
+        storeFontVariants(familyName, variants);
+        ensureFontOption(familyName);
+      });
+      replaceSettings(backup.settings);
+    };
+
+    const showImportPreview = ({ backup, issues }: ParsedSettingsBackup) => {
+      const changes = diffSettings(globalSettings, backup.settings);
+      preview.replaceChildren();
+      const summary = document.createElement("span");
+      summary.className = "modal-hint";
+      const additions = [
+        plural(backup.presets.length, "preset"),
+        plural(backup.themes.length, "custom theme"),
+        plural(Object.keys(backup.fonts).length, "imported font"),
+      ];
+      summary.textContent =
+        `${plural(changes.length, "setting")} will change. ` +
+        `Adds or replaces ${additions.join(", ")}.`;
+      preview.appendChild(summary);
+      if (changes.length > 0) {
+        const list = document.createElement("ul");
+        list.className = "settings-diff";
+        changes.forEach(({ key, from, to }) => {
+          const item = document.createElement("li");
+          const name = document.createElement("code");
+          name.textContent = key;
+          item.append(name, ` ${from} → ${to}`);
+          list.appendChild(item);
+        });
+        preview.appendChild(list);
+      }
+      if (issues.length > 0) {
+        const warning = document.createElement("span");
+        warning.className = "modal-hint";
+        warning.textContent =
+          `Some values in the file were invalid: ${issues.join("; ")}.`;
+        preview.appendChild(warning);
+      }
+      const actions = document.createElement("div");
+      actions.className = "theme-editor-actions";
+      const apply = document.createElement("button");
+      apply.type = "button";
+      apply.textContent = "Apply";
+      const cancel = document.createElement("button");
+      cancel.type = "button";
+      cancel.textContent = "Cancel";
+      actions.append(apply, cancel);
+      preview.appendChild(actions);
+      preview.hidden = false;
+
+      const hidePreview = () => {
+        preview.hidden = true;
+        preview.replaceChildren();
+      };
+      apply.addEventListener("click", () => {
+        applyBackup(backup);
+        hidePreview();
+        hint.textContent = "Imported settings.";
+        void showStorage();
+      });
+      cancel.addEventListener("click", () => {
+        hidePreview();
+        hint.textContent = "Import cancelled.";
+      });
+    };
+
+    importButton.addEventListener("click", () => importInput.click());
+    importInput.addEventListener("change", async () => {
+      const file = importInput.files?.[0];
+      importInput.value = "";
+      if (!file) {
+        return;
+      }
+      try {
+        showImportPreview(parseSettingsBackup(await file.text()));
+        hint.textContent = "Review the changes before applying them.";
+      } catch (error) {
+        hint.textContent =
+          error instanceof Error
+            ? error.message
+            : "Settings file could not be read.";
+      }
+    });
+
+    const clearArea = async (area: StorageArea) => {
+      if (!window.confirm(storageClearPrompts[area.id])) {
+        return;
+      }
+      try {
+        await clearStorageArea(area.id);
+      } catch {
+        hint.textContent = `${area.label} could not be cleared.`;
+        return;
+      }
+      if (area.id === "settings") {
+        Object.assign(globalSettings, defaultSettings);
+        layerSettings();
+        render();
+        showFields();
+      }
+      hint.textContent = `Cleared ${area.label.toLowerCase()}.`;
+      await showStorage();
+    };
+
+    const showStorage = async () => {
+      const areas = await measureStorage();
+      storageList.replaceChildren();
+      areas.forEach((area) => {
+        const item = document.createElement("li");
+        const label = document.createElement("span");
+        label.textContent = area.label;
+        label.title = area.location;
+        const usage = document.createElement("span");
+        usage.className = "storage-usage-size";
+        usage.textContent =
+          area.bytes === null
+            ? "Unavailable"
+            : area.entries === 0
+            ? "Empty"
+            : `${formatBytes(area.bytes)}${
+                area.entries === null || area.entries === 1
+                  ? ""
+                  : `, ${area.entries} items`
+              }`;
+        const clear = document.createElement("button");
+        clear.type = "button";
+        clear.textContent = "Clear";
+        clear.disabled = area.entries === 0 || area.bytes === null;
+        clear.addEventListener("click", () => {
+          void clearArea(area);
+        });
+        item.append(label, usage, clear);
+        storageList.appendChild(item);
+      });
+    };
+
     close.addEventListener("click", () => overlay.remove());
     overlay.addEventListener("click", (event) => {
       if (event.target === overlay) {
         overlay.remove();
       }
     });
+
+    showFields();
+    void showStorage();
   };
 
   settingsButton.addEventListener("click", buildSettingsDialog);
+
+  const buildPageBandsDialog = () => {
+    const bandSlots = (kind: "header" | "footer") =>
+      (["left", "center", "right"] as const)
+        .map(
+          (slot) =>
+            `<input type="text" data-band="${kind}" data-slot="${slot}" placeholder="${slot}" aria-label="${kind} ${slot}" />`
+        )
+        .join("");
+    const overlay = document.createElement("div");
+    overlay.className = "modal-overlay";
+    overlay.innerHTML = `
+      <div class="modal">
+        <h3>Header &amp; footer</h3>
+        <div class="band-fields">
+          <span class="band-fields-label">Header</span>
+          <div class="band-fields-row">${bandSlots("header")}</div>
+          <span class="band-fields-label">Footer</span>
+          <div class="band-fields-row">${bandSlots("footer")}</div>
+        </div>
+        <span class="modal-hint">Tokens: ${BAND_TOKENS.join(" ")}</span>
+        <label class="modal-checkbox">
+          <input id="band-skip-first" type="checkbox" />
+          Hide on first page
+        </label>
+        <div class="modal-actions">
+          <button id="bands-cancel" type="button">Cancel</button>
+          <button id="bands-confirm" type="button">Apply</button>
+        </div>
+      </div>
+    `;
+    document.body.appendChild(overlay);
+
+    const slotInputs = overlay.querySelectorAll<HTMLInputElement>(
+      "input[data-band]"
+    );
+    const skipFirst =
+      overlay.querySelector<HTMLInputElement>("#band-skip-first");
+    const cancel = overlay.querySelector<HTMLButtonElement>("#bands-cancel");
+    const confirm = overlay.querySelector<HTMLButtonElement>("#bands-confirm");
+
+    if (slotInputs.length !== 6 || !skipFirst || !cancel || !confirm) {
+      overlay.remove();
+      return;
+    }
+
+    const slotOf = (input: HTMLInputElement) => ({
+      kind: input.dataset.band === "footer" ? "footer" : "header",
+      slot: input.dataset.slot as keyof RunningBand,
+    } as const);
+
+    slotInputs.forEach((input) => {
+      const { kind, slot } = slotOf(input);
+      input.value = settings[kind][slot];
+    });
+    skipFirst.checked = settings.hideBandsOnFirstPage;
+
+    cancel.addEventListener("click", () => overlay.remove());
+    confirm.addEventListener("click", () => {
+      const next = { header: emptyBand(), footer: emptyBand() };
+      slotInputs.forEach((input) => {
+        const { kind, slot } = slotOf(input);
+        next[kind][slot] = input.value;
+      });
+      updateSettings({ ...next, hideBandsOnFirstPage: skipFirst.checked });
+      overlay.remove();
+    });
+    overlay.addEventListener("click", (event) => {
+      if (event.target === overlay) {
+        overlay.remove();
+      }
+    });
+  };
+
+  pageBandsButton.addEventListener("click", buildPageBandsDialog);
+
+  const buildElementStylesDialog = () => {
+    const choices = (values: readonly (string | number)[]) =>
+      values.map((value) => `<option value="${value}">${value}</option>`).join("");
+    const colorField = (field: string, label: string) => `
+          <label class="element-style-field">
+            ${label}
+            <span class="element-style-color">
+              <input type="color" data-field="${field}" />
+              <button type="button" data-clear="${field}" title="Use the theme colour">Default</button>
+            </span>
+          </label>`;
+    const numberField = (field: string, label: string, max: number) => `
+          <label class="element-style-field">
+            ${label}
+            <input type="number" data-field="${field}" min="0" max="${max}" placeholder="Default" />
+          </label>`;
+    const fonts = Array.from(fontSelect.options)
+      .map((option) => option.value)
+      .filter((value) => value !== "__import__");
+
+    const overlay = document.createElement("div");
+    overlay.className = "modal-overlay";
+    overlay.innerHTML = `
+      <div class="modal element-styles-modal">
+        <h3>Element styles</h3>
+        <select id="element-style-target" aria-label="Element">
+          ${STYLED_ELEMENTS.map(
+            ({ id, label }) => `<option value="${id}">${label}</option>`
+          ).join("")}
+        </select>
+        <fieldset class="modal-fieldset" data-group="text">
+          <legend>Text</legend>
+          <label class="element-style-field">
+            Font
+            <select data-field="fontFamily">
+              <option value="">Document font</option>
+              ${choices(fonts)}
+            </select>
+          </label>
+          ${numberField("fontSize", "Size (px)", 96)}
+          <label class="element-style-field">
+            Weight
+            <select data-field="fontWeight">
+              <option value="">Default</option>
+              ${choices([100, 200, 300, 400, 500, 600, 700, 800, 900])}
+            </select>
+          </label>
+          ${colorField("color", "Colour")}
+        </fieldset>
+        <fieldset class="modal-fieldset" data-group="box">
+          <legend>Spacing &amp; border</legend>
+          ${numberField("marginTop", "Space above (px)", 200)}
+          ${numberField("marginBottom", "Space below (px)", 200)}
+          ${numberField("padding", "Padding (px)", 100)}
+          ${numberField("borderWidth", "Border width (px)", 20)}
+          <label class="element-style-field">
+            Border style
+            <select data-field="borderStyle">
+              <option value="">Default</option>
+              ${choices(BORDER_STYLES)}
+            </select>
+          </label>
+          <label class="element-style-field">
+            Border sides
+            <select data-field="borderSides">
+              ${choices(BORDER_SIDES)}
+            </select>
+          </label>
+          ${colorField("borderColor", "Border colour")}
+        </fieldset>
+        <fieldset class="modal-fieldset" data-group="align">
+          <legend>Alignment</legend>
+          <label class="element-style-field">
+            Align
+            <select data-field="textAlign">
+              <option value="">Default</option>
+              ${choices(TEXT_ALIGNS)}
+            </select>
+          </label>
+        </fieldset>
+        <span class="modal-hint">Saved with this document and used by every export.</span>
+        <div class="modal-actions">
+          <button id="element-style-reset" type="button">Reset element</button>
+          <button id="element-style-reset-all" type="button">Reset all</button>
+          <button id="element-style-close" type="button">Close</button>
+        </div>
+      </div>
+    `;
+    document.body.appendChild(overlay);
+
+    const target = overlay.querySelector<HTMLSelectElement>(
+      "#element-style-target"
+    );
+    const reset = overlay.querySelector<HTMLButtonElement>(
+      "#element-style-reset"
+    );
+    const resetAll = overlay.querySelector<HTMLButtonElement>(
+      "#element-style-reset-all"
+    );
+    const close = overlay.querySelector<HTMLButtonElement>(
+      "#element-style-close"
+    );
+    const fields = Array.from(
+      overlay.querySelectorAll<HTMLInputElement | HTMLSelectElement>(
+        "[data-field]"
+      )
+    );
+    const groups = overlay.querySelectorAll<HTMLFieldSetElement>(
+      "fieldset[data-group]"
+    );
+
+    if (!target || !reset || !resetAll || !close || fields.length === 0) {
+      overlay.remove();
+      return;
+    }
+
+    const currentId = () => target.value as StyledElementId;
+
+    // Colour inputs always hold a value, so an unset colour is tracked with
+    // a flag and shown dimmed until the user picks one.
+    const setColorUnset = (input: HTMLInputElement, unset: boolean) => {
+      input.classList.toggle("is-unset", unset);
+    };
+
+    const refreshTargetLabels = () => {
+      Array.from(target.options).forEach((option) => {
+        const element = STYLED_ELEMENTS.find(({ id }) => id === option.value);
+        const styled = Boolean(
+          settings.elementStyles[option.value as StyledElementId]
+        );
+        option.textContent = `${element?.label ?? option.value}${
+          styled ? " •" : ""
+        }`;
+      });
+    };
+
+    const showElement = () => {
+      const element = STYLED_ELEMENTS.find(({ id }) => id === currentId());
+      const style: ElementStyle = settings.elementStyles[currentId()] ?? {};
+      groups.forEach((group) => {
+        group.hidden = !element?.groups.some(
+          (name) => name === group.dataset.group
+        );
+      });
+      fields.forEach((field) => {
+        const key = field.dataset.field as keyof ElementStyle;
+        const value = style[key];
+        if (field instanceof HTMLInputElement && field.type === "color") {
+          field.value = typeof value === "string" ? value : "#000000";
+          setColorUnset(field, value === undefined);
+          return;
+        }
+        if (
+          field instanceof HTMLSelectElement &&
+          typeof value === "string" &&
+          !Array.from(field.options).some((option) => option.value === value)
+        ) {
+          field.add(new Option(value, value));
+        }
+        field.value = value === undefined ? "" : String(value);
+        if (key === "borderSides" && value === undefined) {
+          field.value = "all";
+        }
+      });
+    };
+
+    const readElement = (): ElementStyle => {
+      const raw: Record<string, unknown> = {};
+      fields.forEach((field) => {
+        const key = field.dataset.field ?? "";
+        if (field.value === "" || field.classList.contains("is-unset")) {
+          return;
+        }
+        raw[key] =
+          field.type === "number" || key === "fontWeight"
+            ? Number(field.value)
+            : field.value;
+      });
+      if (raw.borderSides === "all") {
+        delete raw.borderSides;
+      }
+      return sanitizeElementStyles({ [currentId()]: raw })[currentId()] ?? {};
+    };
+
+    const saveElement = (style: ElementStyle) => {
+      const next = { ...settings.elementStyles };
+      if (Object.keys(style).length > 0) {
+        next[currentId()] = style;
+      } else {
+        delete next[currentId()];
+      }
+      updateSettings({ elementStyles: next });
+      loadElementFonts();
+      refreshTargetLabels();
+    };
+
+    fields.forEach((field) => {
+      field.addEventListener("input", () => {
+        if (field instanceof HTMLInputElement && field.type === "color") {
+          setColorUnset(field, false);
+        }
+        saveElement(readElement());
+      });
+    });
+    overlay
+      .querySelectorAll<HTMLButtonElement>("button[data-clear]")
+      .forEach((button) => {
+        button.addEventListener("click", () => {
+          const input = fields.find(
+            (field) => field.dataset.field === button.dataset.clear
+          );
+          if (input instanceof HTMLInputElement) {
+            setColorUnset(input, true);
+            saveElement(readElement());
+          }
+        });
+      });
+
+    target.addEventListener("change", showElement);
+    reset.addEventListener("click", () => {
+      saveElement({});
+      showElement();
+    });
+    resetAll.addEventListener("click", () => {
+      if (!window.confirm("Remove the styles of every element?")) {
+        return;
+      }
+      updateSettings({ elementStyles: {} });
+      refreshTargetLabels();
+      showElement();
+    });
+    close.addEventListener("click", () => overlay.remove());
+    overlay.addEventListener("click", (event) => {
+      if (event.target === overlay) {
+        overlay.remove();
+      }
+    });
+
+    refreshTargetLabels();
+    showElement();
+  };
+
+  elementStylesButton.addEventListener("click", buildElementStylesDialog);
+
+  const buildUserCssDialog = () => {
+    const overlay = document.createElement("div");
+    overlay.className = "modal-overlay";
+    overlay.innerHTML = `
+      <div class="modal">
+        <h3>Document stylesheet</h3>
+        <label>
+          CSS
+          <textarea id="user-css-source" class="front-matter-source" rows="12" spellcheck="false"></textarea>
+          <span class="modal-hint">Rules apply inside the page only. @import, @page, external url() references and position: fixed are removed.</span>
+        </label>
+        <span id="user-css-report" class="modal-hint"></span>
+        <input id="user-css-input" type="file" accept=".css,text/css" hidden />
+        <div class="modal-actions">
+          <button id="user-css-load" type="button">Load file...</button>
+          <button id="user-css-remove" type="button">Remove</button>
+          <button id="user-css-cancel" type="button">Cancel</button>
+          <button id="user-css-apply" type="button">Apply</button>
+        </div>
+      </div>
+    `;
+    document.body.appendChild(overlay);
+
+    const source =
+      overlay.querySelector<HTMLTextAreaElement>("#user-css-source");
+    const report = overlay.querySelector<HTMLSpanElement>("#user-css-report");
+    const input = overlay.querySelector<HTMLInputElement>("#user-css-input");
+    const load = overlay.querySelector<HTMLButtonElement>("#user-css-load");
+    const remove = overlay.querySelector<HTMLButtonElement>("#user-css-remove");
+    const cancel = overlay.querySelector<HTMLButtonElement>("#user-css-cancel");
+    const apply = overlay.querySelector<HTMLButtonElement>("#user-css-apply");
+
+    if (!source || !report || !input || !load || !remove || !cancel || !apply) {
+      overlay.remove();
+      return;
+    }
+
+    source.value = settings.userCss;
+    source.placeholder = "h1 { color: #0b3d91; }\n@media print { a { color: inherit; } }";
+    source.focus();
+
+    load.addEventListener("click", () => input.click());
+    input.addEventListener("change", async () => {
+      const file = input.files?.[0];
+      input.value = "";
+      if (!file) {
+        return;
+      }
+      if (file.size > MAX_USER_CSS_LENGTH) {
+        report.textContent = "Stylesheet is too large (200 KB at most).";
+        return;
+      }
+      source.value = await file.text();
+      report.textContent = `Loaded ${file.name}.`;
+    });
+    remove.addEventListener("click", () => {
+      updateSettings({ userCss: "" });
+      setStatus("Document stylesheet removed.");
+      overlay.remove();
+    });
+    cancel.addEventListener("click", () => overlay.remove());
+    overlay.addEventListener("click", (event) => {
+      if (event.target === overlay) {
+        overlay.remove();
+      }
+    });
+    apply.addEventListener("click", () => {
+      let removed: string[];
+      try {
+        removed = scopeUserCss(source.value).removed;
+      } catch (error) {
+        report.textContent =
+          error instanceof Error ? error.message : "Stylesheet could not be read.";
+        return;
+      }
+      updateSettings({ userCss: source.value });
+      setStatus(
+        removed.length > 0
+          ? `Stylesheet applied. Removed: ${removed.join(", ")}.`
+          : "Stylesheet applied."
+      );
+      overlay.remove();
+    });
+  };
+
+  userCssButton.addEventListener("click", buildUserCssDialog);
+
+  const buildMarginsDialog = () => {
+    const overlay = document.createElement("div");
+    overlay.className = "modal-overlay";
+    const sideField = (side: MarginSide) => `
+          <label class="margin-field">
+            <span data-side-label="${side}"></span>
+            <input data-side="${side}" type="number" min="0" max="${MAX_MARGIN_MM}" step="1" />
+          </label>`;
+    overlay.innerHTML = `
+      <div class="modal">
+        <h3>Page margins</h3>
+        <div class="margin-fields">
+          ${sideField("top")}
+          ${sideField("bottom")}
+          ${sideField("left")}
+          ${sideField("right")}
+        </div>
+        <label class="modal-checkbox">
+          <input id="margins-mirror" type="checkbox" />
+          Mirror on facing pages for duplex printing
+        </label>
+        <label class="margin-field">
+          Gutter (mm)
+          <input id="margins-gutter" type="number" min="0" max="${MAX_GUTTER_MM}" step="1" />
+        </label>
+        <span id="margins-hint" class="modal-hint"></span>
+        <div class="modal-actions">
+          <button id="margins-cancel" type="button">Cancel</button>
+          <button id="margins-confirm" type="button">Apply</button>
+        </div>
+      </div>
+    `;
+    document.body.appendChild(overlay);
+
+    const mirror = overlay.querySelector<HTMLInputElement>("#margins-mirror");
+    const gutter = overlay.querySelector<HTMLInputElement>("#margins-gutter");
+    const hint = overlay.querySelector<HTMLSpanElement>("#margins-hint");
+    const cancel = overlay.querySelector<HTMLButtonElement>("#margins-cancel");
+    const confirm = overlay.querySelector<HTMLButtonElement>(
+      "#margins-confirm"
+    );
+
+    if (!mirror || !gutter || !hint || !cancel || !confirm) {
+      overlay.remove();
+      return;
+    }
+
+    const sideInput = (side: MarginSide) =>
+      overlay.querySelector<HTMLInputElement>(`[data-side="${side}"]`);
+    const readMargins = () => {
+      const raw: Record<string, number> = {};
+      MARGIN_SIDES.forEach((side) => {
+        raw[side] = Number.parseFloat(sideInput(side)?.value ?? "");
+      });
+      return sanitizeMargins(raw, settings.margins);
+    };
+
+    // With mirroring the left and right fields become the inside and
+    // outside edges of every page.
+    const refresh = () => {
+      const labels: Record<MarginSide, string> = mirror.checked
+        ? { top: "Top", bottom: "Bottom", left: "Inside", right: "Outside" }
+        : { top: "Top", bottom: "Bottom", left: "Left", right: "Right" };
+      MARGIN_SIDES.forEach((side) => {
+        const label = overlay.querySelector<HTMLSpanElement>(
+          `[data-side-label="${side}"]`
+        );
+        if (label) {
+          label.textContent = `${labels[side]} (mm)`;
+        }
+      });
+      const resolved = resolvePageMargins({
+        ...settings,
+        margins: readMargins(),
+        mirrorMargins: mirror.checked,
+        gutter: sanitizeGutter(Number.parseFloat(gutter.value)),
+      });
+      hint.textContent = frontMatterValues.settings.margins
+        ? "This document's front-matter sets its own margin, which wins over these values."
+        : resolved.adjusted
+        ? `Too large for ${formatPageSize(settings)}; pages will use ${formatMargins(
+            resolved.margins
+          )} (top/right/bottom/left, gutter included).`
+        : "The gutter is added to the inside edge, for binding.";
+    };
+
+    MARGIN_SIDES.forEach((side) => {
+      const input = sideInput(side);
+      if (input) {
+        input.value = String(settings.margins[side]);
+        input.addEventListener("input", refresh);
+      }
+    });
+    mirror.checked = settings.mirrorMargins;
+    gutter.value = String(settings.gutter);
+    mirror.addEventListener("change", refresh);
+    gutter.addEventListener("input", refresh);
+
+    cancel.addEventListener("click", () => overlay.remove());
+    confirm.addEventListener("click", () => {
+      updateSettings({
+        margins: readMargins(),
+        mirrorMargins: mirror.checked,
+        gutter: sanitizeGutter(Number.parseFloat(gutter.value)),
+      });
+      overlay.remove();
+    });
+    overlay.addEventListener("click", (event) => {
+      if (event.target === overlay) {
+        overlay.remove();
+      }
+    });
+
+    refresh();
+  };
+
+  const buildPresetsDialog = () => {
+    const overlay = document.createElement("div");
+    overlay.className = "modal-overlay";
+    overlay.innerHTML = `
+      <div class="modal">
+        <h3>Style presets</h3>
+        <select id="preset-editor-select" aria-label="Preset"></select>
+        <div class="theme-editor-actions">
+          <button id="preset-apply" type="button">Apply</button>
+          <button id="preset-update" type="button" title="Replace with the current typography and layout">Update</button>
+          <button id="preset-rename" type="button">Rename</button>
+          <button id="preset-delete" type="button">Delete</button>
+        </div>
+        <span id="preset-editor-hint" class="modal-hint">Presets set theme, font, font size, line height, width, paragraph spacing, page size, margin and padding.</span>
+        <input id="preset-import-input" type="file" accept=".json,application/json" hidden />
+        <div class="modal-actions">
+          <button id="preset-import" type="button">Import...</button>
+          <button id="preset-export" type="button">Export</button>
+          <button id="preset-close" type="button">Close</button>
+        </div>
+      </div>
+    `;
+    document.body.appendChild(overlay);
+
+    const select = overlay.querySelector<HTMLSelectElement>(
+      "#preset-editor-select"
+    );
+    const hint = overlay.querySelector<HTMLSpanElement>("#preset-editor-hint");
+    const applyButton =
+      overlay.querySelector<HTMLButtonElement>("#preset-apply");
+    const updateButton =
+      overlay.querySelector<HTMLButtonElement>("#preset-update");
+    const renameButton =
+      overlay.querySelector<HTMLButtonElement>("#preset-rename");
+    const deleteButton =
+      overlay.querySelector<HTMLButtonElement>("#preset-delete");
+    const importButton =
+      overlay.querySelector<HTMLButtonElement>("#preset-import");
+    const importInput = overlay.querySelector<HTMLInputElement>(
+      "#preset-import-input"
+    );
+    const exportButton =
+      overlay.querySelector<HTMLButtonElement>("#preset-export");
+    const close = overlay.querySelector<HTMLButtonElement>("#preset-close");
+
+    if (
+      !select ||
+      !hint ||
+      !applyButton ||
+      !updateButton ||
+      !renameButton ||
+      !deleteButton ||
+      !importButton ||
+      !importInput ||
+      !exportButton ||
+      !close
+    ) {
+      overlay.remove();
+      return;
+    }
+
+    const selected = () =>
+      allPresets().find((preset) => preset.id === select.value) ?? null;
+
+    const populateSelect = (id = select.value || presetSelect.value) => {
+      select.innerHTML = presetSelect.innerHTML;
+      select
+        .querySelectorAll('option[value=""], option[value^="__"]')
+        .forEach((option) => option.remove());
+      select.value = id;
+      if (!select.value) {
+        select.value = builtInPresets[0].id;
+      }
+      const editable = !selected()?.builtIn;
+      updateButton.disabled = !editable;
+      renameButton.disabled = !editable;
+      deleteButton.disabled = !editable;
+    };
+
+    select.addEventListener("change", () => populateSelect(select.value));
+    applyButton.addEventListener("click", () => {
+      const preset = selected();
+      if (preset) {
+        applyPreset(preset);
+      }
+    });
+    updateButton.addEventListener("click", () => {
+      const preset = selected();
+      if (!preset || preset.builtIn) {
+        return;
+      }
+      const next = capturePreset(preset.name, settings);
+      userPresets = userPresets.map((item) =>
+        item.id === preset.id ? { ...next, id: preset.id } : item
+      );
+      storePresets();
+      hint.textContent = `Updated "${preset.name}" from the current settings.`;
+    });
+    renameButton.addEventListener("click", async () => {
+      const preset = selected();
+      if (!preset || preset.builtIn) {
+        return;
+      }
+      const name = await promptText("Rename preset", preset.name);
+      if (!name?.trim()) {
+        return;
+      }
+      userPresets = userPresets.map((item) =>
+        item.id === preset.id ? { ...item, name: name.trim() } : item
+      );
+      storePresets();
+      populateSelect(preset.id);
+    });
+    deleteButton.addEventListener("click", () => {
+      const preset = selected();
+      if (
+        !preset ||
+        preset.builtIn ||
+        !window.confirm(`Delete the preset "${preset.name}"?`)
+      ) {
+        return;
+      }
+      userPresets = userPresets.filter((item) => item.id !== preset.id);
+      storePresets();
+      populateSelect(builtInPresets[0].id);
+    });
+    exportButton.addEventListener("click", () => {
+      const preset = selected();
+      if (!preset) {
+        return;
+      }
+      const slug =
+        preset.name
+          .toLowerCase()
+          .replace(/[^a-z0-9]+/g, "-")
+          .replace(/^-|-$/g, "") || "preset";
+      downloadBlob(
+        new Blob([serializePresets([preset])], { type: "application/json" }),
+        `${slug}.preset.json`
+      );
+    });
+    importButton.addEventListener("click", () => importInput.click());
+    importInput.addEventListener("change", async () => {
+      const file = importInput.files?.[0];
+      importInput.value = "";
+      if (!file) {
+        return;
+      }
+      try {
+        const imported = parsePresetFile(await file.text());
+        userPresets = [...userPresets, ...imported];
+        storePresets();
+        populateSelect(imported[0].id);
+        hint.textContent = `Imported ${imported.length} preset${
+          imported.length === 1 ? "" : "s"
+        }.`;
+      } catch (error) {
+        hint.textContent =
+          error instanceof Error ? error.message : "Preset file could not be read.";
+      }
+    });
+    close.addEventListener("click", () => overlay.remove());
+    overlay.addEventListener("click", (event) => {
+      if (event.target === overlay) {
+        overlay.remove();
+      }
+    });
+
+    populateSelect();
+  };
+
+  const buildThemeEditorDialog = () => {
+    const overlay = document.createElement("div");
+    overlay.className = "modal-overlay";
+    overlay.innerHTML = `
+      <div class="modal theme-editor-modal">
+        <h3>Themes</h3>
+        <select id="theme-editor-select" aria-label="Theme"></select>
+        <div class="theme-editor-actions">
+          <button id="theme-new" type="button">New</button>
+          <button id="theme-duplicate" type="button">Duplicate</button>
+          <button id="theme-rename" type="button">Rename</button>
+          <button id="theme-delete" type="button">Delete</button>
+        </div>
+        <span id="theme-editor-hint" class="modal-hint"></span>
+        <fieldset class="modal-fieldset">
+          <legend>Colours</legend>
+          ${THEME_VARIABLES.map(
+            ({ name, label }) => `
+          <label class="element-style-field">
+            ${label}
+            <span class="element-style-color">
+              <input type="color" data-picker="${name}" aria-label="${label} picker" />
+              <input type="text" data-variable="${name}" spellcheck="false" />
+            </span>
+          </label>`
+          ).join("")}
+        </fieldset>
+        <fieldset class="modal-fieldset">
+          <legend>Contrast (WCAG AA needs 4.5:1)</legend>
+          <ul id="theme-contrast" class="theme-contrast"></ul>
+        </fieldset>
+        <input id="theme-import-input" type="file" accept=".json,application/json" hidden />
+        <div class="modal-actions">
+          <button id="theme-import" type="button">Import...</button>
+          <button id="theme-export" type="button">Export</button>
+          <button id="theme-close" type="button">Close</button>
+        </div>
+      </div>
+    `;
+    document.body.appendChild(overlay);
+
+    const select = overlay.querySelector<HTMLSelectElement>(
+      "#theme-editor-select"
+    );
+    const hint = overlay.querySelector<HTMLSpanElement>("#theme-editor-hint");
+    const contrast = overlay.querySelector<HTMLUListElement>("#theme-contrast");
+    const newButton = overlay.querySelector<HTMLButtonElement>("#theme-new");
+    const duplicateButton =
+      overlay.querySelector<HTMLButtonElement>("#theme-duplicate");
+    const renameButton =
+      overlay.querySelector<HTMLButtonElement>("#theme-rename");
+    const deleteButton =
+      overlay.querySelector<HTMLButtonElement>("#theme-delete");
+    const importButton =
+      overlay.querySelector<HTMLButtonElement>("#theme-import");
+    const importInput =
+      overlay.querySelector<HTMLInputElement>("#theme-import-input");
+    const exportButton =
+      overlay.querySelector<HTMLButtonElement>("#theme-export");
+    const close = overlay.querySelector<HTMLButtonElement>("#theme-close");
+    const variableInputs = Array.from(
+      overlay.querySelectorAll<HTMLInputElement>("input[data-variable]")
+    );
+    const pickers = Array.from(
+      overlay.querySelectorAll<HTMLInputElement>("input[data-picker]")
+    );
+
+    if (
+      !select ||
+      !hint ||
+      !contrast ||
+      !newButton ||
+      !duplicateButton ||
+      !renameButton ||
+      !deleteButton ||
+      !importButton ||
+      !importInput ||
+      !exportButton ||
+      !close
+    ) {
+      overlay.remove();
+      return;
+    }
+
+    const selectedCustom = () =>
+      customThemes.find((theme) => theme.id === select.value) ?? null;
+
+    const storeThemes = () => {
+      saveCustomThemes(customThemes);
+      populateThemeOptions();
+    };
+
+    const populateSelect = () => {
+      const selected = select.value || settings.theme;
+      select.innerHTML = themeSelect.innerHTML;
+      select.querySelector('option[value="__themes__"]')?.remove();
+      select.value = selected;
+      if (!select.value) {
+        select.value = builtInThemeIds[0];
+      }
+    };
+
+    const showContrast = (variables: Record<string, string>) => {
+      contrast.innerHTML = CONTRAST_PAIRS.map(
+        ({ label, foreground, background }) => {
+          const ratio = contrastRatio(
+            variables[foreground],
+            variables[background]
+          );
+          if (ratio === null) {
+            return `<li>${label}: not checked (use hex colours)</li>`;
+          }
+          const passes = ratio >= 4.5;
+          return `<li class="${passes ? "" : "is-low"}">${label}: ${ratio.toFixed(
+            1
+          )}:1 ${passes ? "✓" : "— too low"}</li>`;
+        }
+      ).join("");
+    };
+
+    const showTheme = () => {
+      const id = select.value as ThemeId;
+      const custom = selectedCustom();
+      const { variables } = resolveTheme(id, customThemes);
+      variableInputs.forEach((input) => {
+        const name = input.dataset.variable as keyof typeof variables;
+        input.value = variables[name];
+        input.disabled = !custom;
+        input.classList.remove("is-invalid");
+      });
+      pickers.forEach((picker) => {
+        const name = picker.dataset.picker as keyof typeof variables;
+        const value = variables[name];
+        picker.disabled = !custom;
+        picker.hidden = !/^#[0-9a-f]{6}$/i.test(value);
+        if (!picker.hidden) {
+          picker.value = value;
+        }
+      });
+      renameButton.disabled = !custom;
+      deleteButton.disabled = !custom;
+      hint.textContent = custom
+        ? "Changes are saved in this browser and applied as you type."
+        : "Built-in themes are read-only; duplicate one to edit it.";
+      showContrast(variables);
+    };
+
+    // Picking a theme here applies it, so edits are previewed live.
+    const activate = (id: ThemeId) => {
+      populateSelect();
+      select.value = id;
+      updateSettings({ theme: id });
+      themeSelect.value = id;
+      renderDebounced();
+      showTheme();
+    };
+
+    const addTheme = (theme: CustomTheme) => {
+      customThemes = [...customThemes, theme];
+      storeThemes();
+      activate(theme.id);
+    };
+
+    const copyTheme = async (from: ThemeId, name: string) => {
+      const value = await promptText("Theme name", name);
+      if (!value?.trim()) {
+        return;
+      }
+      const source = resolveTheme(from, customThemes);
+      addTheme({
+        id: createCustomThemeId(),
+        name: value.trim(),
+        base: source.base,
+        variables: { ...source.variables },
+      });
+    };
+
+    const updateVariable = (name: string, value: string) => {
+      const custom = selectedCustom();
+      if (!custom || !isThemeColor(value)) {
+        return false;
+      }
+      custom.variables = { ...custom.variables, [name]: value.trim() };
+      saveCustomThemes(customThemes);
+      if (settings.theme === custom.id) {
+        applySettings(settings);
+        renderDebounced();
+      }
+      showContrast(custom.variables);
+      return true;
+    };
+
+    variableInputs.forEach((input) => {
+      input.addEventListener("input", () => {
+        const valid = updateVariable(input.dataset.variable ?? "", input.value);
+        input.classList.toggle("is-invalid", !valid);
+        const picker = pickers.find(
+          (item) => item.dataset.picker === input.dataset.variable
+        );
+        if (picker && valid) {
+          picker.hidden = !/^#[0-9a-f]{6}$/i.test(input.value.trim());
+          if (!picker.hidden) {
+            picker.value = input.value.trim();
+          }
+        }
+      });
+    });
+    pickers.forEach((picker) => {
+      picker.addEventListener("input", () => {
+        const input = variableInputs.find(
+          (item) => item.dataset.variable === picker.dataset.picker
+        );
+        if (input) {
+          input.value = picker.value;
+          input.classList.remove("is-invalid");
+        }
+        updateVariable(picker.dataset.picker ?? "", picker.value);
+      });
+    });
+
+    select.addEventListener("change", () => {
+      if (isThemeId(select.value)) {
+        activate(select.value);
+      }
+    });
+    newButton.addEventListener("click", () => {
+      void copyTheme(settings.theme, "My theme");
+    });
+    duplicateButton.addEventListener("click", () => {
+      const { name } = resolveTheme(select.value as ThemeId, customThemes);
+      void copyTheme(select.value as ThemeId, `${name} copy`);
+    });
+    renameButton.addEventListener("click", async () => {
+      const custom = selectedCustom();
+      if (!custom) {
+        return;
+      }
+      const value = await promptText("Rename theme", custom.name);
+      if (!value?.trim()) {
+        return;
+      }
+      custom.name = value.trim();
+      storeThemes();
+      populateSelect();
+    });
+    deleteButton.addEventListener("click", () => {
+      const custom = selectedCustom();
+      if (!custom || !window.confirm(`Delete the theme "${custom.name}"?`)) {
+        return;
+      }
+      customThemes = customThemes.filter((theme) => theme.id !== custom.id);
+      storeThemes();
+      activate(settings.theme === custom.id ? custom.base : settings.theme);
+    });
+    exportButton.addEventListener("click", () => {
+      const id = select.value as ThemeId;
+      const theme = selectedCustom() ?? {
+        id: createCustomThemeId(),
+        ...resolveTheme(id, customThemes),
+      };
+      const slug =
+        theme.name
+          .toLowerCase()
+          .replace(/[^a-z0-9]+/g, "-")
+          .replace(/^-|-$/g, "") || "theme";
+      downloadBlob(
+        new Blob([serializeThemes([theme])], { type: "application/json" }),
+        `${slug}.theme.json`
+      );
+    });
+    importButton.addEventListener("click", () => importInput.click());
+    importInput.addEventListener("change", async () => {
+      const file = importInput.files?.[0];
+      importInput.value = "";
+      if (!file) {
+        return;
+      }
+      try {
+        const imported = parseThemeFile(await file.text());
+        customThemes = [...customThemes, ...imported];
+        storeThemes();
+        activate(imported[0].id);
+        hint.textContent = `Imported ${imported.length} theme${
+          imported.length === 1 ? "" : "s"
+        }.`;
+      } catch (error) {
+        hint.textContent =
+          error instanceof Error ? error.message : "Theme file could not be read.";
+      }
+    });
+    close.addEventListener("click", () => overlay.remove());
+    overlay.addEventListener("click", (event) => {
+      if (event.target === overlay) {
+        overlay.remove();
+      }
+    });
+
+    populateSelect();
+    showTheme();
+  };
 }
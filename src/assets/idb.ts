@@ -1,6 +1,11 @@
+import type { DocumentSettings } from "../state/settings";
+
 const DB_NAME = "mso";
-const DB_VERSION = 1;
-const STORE_NAME = "images";
+const DB_VERSION = 3;
+const IMAGE_STORE = "images";
+const DRAFT_STORE = "drafts";
+const DOCUMENT_STORE = "documents";
+const STORE_NAMES = [IMAGE_STORE, DRAFT_STORE, DOCUMENT_STORE];
 
 export type StoredImage = {
   id: string;
@@ -11,38 +16,138 @@ export type StoredImage = {
   blob: Blob;
 };
 
+export type StoredDraft = {
+  id: string;
+  documentId?: string;
+  sequence: number;
+  savedAt: number;
+  markdown: string;
+  imageIds: string[];
+  checksum: string;
+};
+
+export type StoredDocument = {
+  id: string;
+  title: string;
+  markdown: string;
+  settings: DocumentSettings;
+  createdAt: number;
+  updatedAt: number;
+};
+
 const openDb = (): Promise<IDBDatabase> =>
   new Promise((resolve, reject) => {
     const request = indexedDB.open(DB_NAME, DB_VERSION);
     request.onupgradeneeded = () => {
       const db = request.result;
-      if (!db.objectStoreNames.contains(STORE_NAME)) {
-        db.createObjectStore(STORE_NAME, { keyPath: "id" });
-      }
+      STORE_NAMES.forEach((storeName) => {
+        if (!db.objectStoreNames.contains(storeName)) {
+          db.createObjectStore(storeName, { keyPath: "id" });
+        }
+      });
     };
     request.onsuccess = () => resolve(request.result);
     request.onerror = () => reject(request.error);
   });
 
-export const putImage = async (record: StoredImage): Promise<void> => {
+const putRecord = async <T>(storeName: string, record: T): Promise<void> => {
   const db = await openDb();
-  await new Promise<void>((resolve, reject) => {
-    const tx = db.transaction(STORE_NAME, "readwrite");
-    tx.objectStore(STORE_NAME).put(record);
-    tx.oncomplete = () => resolve();
-    tx.onerror = () => reject(tx.error);
-  });
-  db.close();
+  try {
+    await new Promise<void>((resolve, reject) => {
+      const tx = db.transaction(storeName, "readwrite");
+      tx.objectStore(storeName).put(record);
+      tx.oncomplete = () => resolve();
+      tx.onerror = () => reject(tx.error);
+      tx.onabort = () => reject(tx.error);
+    });
+  } finally {
+    db.close();
+  }
 };
 
-export const getImage = async (id: string): Promise<StoredImage | null> => {
+const getRecord = async <T>(storeName: string, id: string): Promise<T | null> => {
   const db = await openDb();
-  const result = await new Promise<StoredImage | null>((resolve, reject) => {
-    const tx = db.transaction(STORE_NAME, "readonly");
-    const request = tx.objectStore(STORE_NAME).get(id);
-    request.onsuccess = () => resolve((request.result as StoredImage) ?? null);
-    request.onerror = () => reject(request.error);
-  });
-  db.close();
-  return result;
+  try {
+    return await new Promise<T | null>((resolve, reject) => {
+      const tx = db.transaction(storeName, "readonly");
+      const request = tx.objectStore(storeName).get(id);
+      request.onsuccess = () => resolve((request.result as T) ?? null);
+      request.onerror = () => reject(request.error);
+    });
+  } finally {
+    db.close();
+  }
+};
+
+const getAllRecords = async <T>(storeName: string): Promise<T[]> => {
+  const db = await openDb();
+  try {
+    return await new Promise<T[]>((resolve, reject) => {
+      const tx = db.transaction(storeName, "readonly");
+      const request = tx.objectStore(storeName).getAll();
+      request.onsuccess = () => resolve((request.result as T[]) ?? []);
+      request.onerror = () => reject(request.error);
+    });
+  } finally {
+    db.close();
+  }
+};
+
+const deleteRecord = async (storeName: string, id: string): Promise<void> => {
+  const db = await openDb();
+  try {
+    await new Promise<void>((resolve, reject) => {
+      const tx = db.transaction(storeName, "readwrite");
+      tx.objectStore(storeName).delete(id);
+      tx.oncomplete = () => resolve();
+      tx.onerror = () => reject(tx.error);
+      tx.onabort = () => reject(tx.error);
+    });
+  } finally {
+    db.close();
+  }
+};
+
+const clearRecords = async (storeName: string): Promise<void> => {
+  const db = await openDb();
+  try {
+    await new Promise<void>((resolve, reject) => {
+      const tx = db.transaction(storeName, "readwrite");
+      tx.objectStore(storeName).clear();
+      tx.oncomplete = () => resolve();
+      tx.onerror = () => reject(tx.error);
+      tx.onabort = () => reject(tx.error);
+    });
+  } finally {
+    db.close();
+  }
 };
+
+export const putImage = (record: StoredImage): Promise<void> =>
+  putRecord(IMAGE_STORE, record);
+
+export const getImage = (id: string): Promise<StoredImage | null> =>
+  getRecord<StoredImage>(IMAGE_STORE, id);
+
+export const getImages = (): Promise<StoredImage[]> =>
+  getAllRecords<StoredImage>(IMAGE_STORE);
+
+export const clearImages = (): Promise<void> => clearRecords(IMAGE_STORE);
+
+export const putDraft = (record: StoredDraft): Promise<void> =>
+  putRecord(DRAFT_STORE, record);
+
+export const getDrafts = (): Promise<StoredDraft[]> =>
+  getAllRecords<StoredDraft>(DRAFT_STORE);
+
+export const putDocument = (record: StoredDocument): Promise<void> =>
+  putRecord(DOCUMENT_STORE, record);
+
+export const getDocument = (id: string): Promise<StoredDocument | null> =>
+  getRecord<StoredDocument>(DOCUMENT_STORE, id);
+
+export const getDocuments = (): Promise<StoredDocument[]> =>
+  getAllRecords<StoredDocument>(DOCUMENT_STORE);
+
+export const deleteDocument = (id: string): Promise<void> =>
+  deleteRecord(DOCUMENT_STORE, id);
@@ -101,6 +101,41 @@ export const resolveAppImages = async (
   );
 };
 
+const IMAGE_EXTENSIONS: Record<string, string> = {
+  "image/png": "png",
+  "image/jpeg": "jpg",
+  "image/webp": "webp",
+  "image/gif": "gif",
+};
+
+export const imageExtension = (mime: string): string =>
+  IMAGE_EXTENSIONS[mime] ?? "bin";
+
+export const blobToDataUrl = (blob: Blob): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(String(reader.result));
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+
+// Image bytes behind a rendered `src`, whether still an `appimg://` reference
+// or already swapped for a blob URL by `resolveAppImages`.
+export const getImageBlob = async (src: string): Promise<Blob | null> => {
+  if (src.startsWith("appimg://")) {
+    const record = await getImage(src.slice("appimg://".length));
+    return record?.blob ?? null;
+  }
+  if (src.startsWith("blob:")) {
+    try {
+      return await (await fetch(src)).blob();
+    } catch {
+      return null;
+    }
+  }
+  return null;
+};
+
 const parseTitleOptions = (title: string) => {
   const options: Record<string, string> = {};
   title
@@ -0,0 +1,54 @@
+import Highlight from "@tiptap/extension-highlight";
+import Subscript from "@tiptap/extension-subscript";
+import Superscript from "@tiptap/extension-superscript";
+import type MarkdownIt from "markdown-it";
+import mark from "markdown-it-mark";
+import sub from "markdown-it-sub";
+import sup from "markdown-it-sup";
+import type { MarkdownMarkSpec } from "tiptap-markdown";
+
+// Written back with the same delimiters the preview parser understands, so
+// `==mark==`, `H~2~O` and `x^2^` survive a trip through the rich editor.
+const markdownMark = (
+  delimiter: string,
+  plugin: (md: MarkdownIt) => void
+): MarkdownMarkSpec => ({
+  serialize: {
+    open: delimiter,
+    close: delimiter,
+    mixable: true,
+    expelEnclosingWhitespace: true,
+  },
+  parse: {
+    setup(markdownit) {
+      (markdownit as unknown as MarkdownIt).use(plugin);
+    },
+  },
+});
+
+export const HighlightMark = Highlight.extend<
+  Record<string, never>,
+  { markdown: MarkdownMarkSpec }
+>({
+  addStorage() {
+    return { markdown: markdownMark("==", mark) };
+  },
+});
+
+export const SubscriptMark = Subscript.extend<
+  Record<string, never>,
+  { markdown: MarkdownMarkSpec }
+>({
+  addStorage() {
+    return { markdown: markdownMark("~", sub) };
+  },
+});
+
+export const SuperscriptMark = Superscript.extend<
+  Record<string, never>,
+  { markdown: MarkdownMarkSpec }
+>({
+  addStorage() {
+    return { markdown: markdownMark("^", sup) };
+  },
+});
@@ -0,0 +1,129 @@
+import { Node, mergeAttributes } from "@tiptap/core";
+import type MarkdownIt from "markdown-it";
+import type { MarkdownNodeSpec } from "tiptap-markdown";
+import {
+  MATH_BLOCK_CLASS,
+  MATH_INLINE_CLASS,
+  mathPlugin,
+  renderMath,
+} from "../markdown/math";
+
+type MathOptions = {
+  // Asks for new LaTeX; resolves to null when the user cancels.
+  editLatex: (latex: string) => Promise<string | null>;
+};
+
+declare module "@tiptap/core" {
+  interface Commands<ReturnType> {
+    math: {
+      insertMath: (latex: string, display: boolean) => ReturnType;
+    };
+  }
+}
+
+const createMathNode = (display: boolean) =>
+  Node.create<MathOptions, { markdown: MarkdownNodeSpec }>({
+    name: display ? "mathBlock" : "mathInline",
+    group: display ? "block" : "inline",
+    inline: !display,
+    atom: true,
+    selectable: true,
+
+    addOptions() {
+      return { editLatex: async () => null };
+    },
+
+    addAttributes() {
+      return {
+        latex: {
+          default: "",
+          parseHTML: (element) => element.getAttribute("data-latex") ?? "",
+          renderHTML: (attributes) => ({ "data-latex": attributes.latex }),
+        },
+      };
+    },
+
+    parseHTML() {
+      return [
+        {
+          tag: `${display ? "div" : "span"}.${
+            display ? MATH_BLOCK_CLASS : MATH_INLINE_CLASS
+          }`,
+        },
+      ];
+    },
+
+    renderHTML({ HTMLAttributes }) {
+      return [
+        display ? "div" : "span",
+        mergeAttributes(HTMLAttributes, {
+          class: display ? MATH_BLOCK_CLASS : MATH_INLINE_CLASS,
+        }),
+      ];
+    },
+
+    addNodeView() {
+      return ({ node, getPos, editor }) => {
+        const dom = document.createElement(display ? "div" : "span");
+        dom.className = display ? MATH_BLOCK_CLASS : MATH_INLINE_CLASS;
+        dom.title = "Double-click to edit";
+        dom.innerHTML = renderMath(node.attrs.latex, display);
+        dom.addEventListener("dblclick", async (event) => {
+          event.preventDefault();
+          const next = await this.options.editLatex(node.attrs.latex);
+          const pos = typeof getPos === "function" ? getPos() : undefined;
+          if (next === null || pos === undefined) {
+            return;
+          }
+          editor
+            .chain()
+            .focus()
+            .command(({ tr }) => {
+              tr.setNodeMarkup(pos, undefined, { latex: next });
+              return true;
+            })
+            .run();
+        });
+        return { dom };
+      };
+    },
+
+    addStorage() {
+      return {
+        markdown: {
+          serialize(state, node) {
+            if (display) {
+              state.write(`$$\n${node.attrs.latex}\n$$`);
+              state.closeBlock(node);
+            } else {
+              state.write(`$${node.attrs.latex}$`);
+            }
+          },
+          parse: {
+            setup(markdownit) {
+              // Registered once by whichever node is set up first.
+              if (display) {
+                (markdownit as unknown as MarkdownIt).use(mathPlugin);
+              }
+            },
+          },
+        },
+      };
+    },
+  });
+
+export const MathInline = createMathNode(false);
+
+export const MathBlock = createMathNode(true).extend({
+  addCommands() {
+    return {
+      insertMath:
+        (latex, display) =>
+        ({ commands }) =>
+          commands.insertContent({
+            type: display ? "mathBlock" : "mathInline",
+            attrs: { latex },
+          }),
+    };
+  },
+});
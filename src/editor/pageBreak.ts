@@ -0,0 +1,65 @@
+import { Node, mergeAttributes } from "@tiptap/core";
+import type MarkdownIt from "markdown-it";
+import type { MarkdownNodeSpec } from "tiptap-markdown";
+import {
+  PAGE_BREAK_CLASS,
+  PAGE_BREAK_MARKDOWN,
+  pageBreakPlugin,
+} from "../markdown/pageBreak";
+
+declare module "@tiptap/core" {
+  interface Commands<ReturnType> {
+    pageBreak: {
+      setPageBreak: () => ReturnType;
+    };
+  }
+}
+
+export const PageBreak = Node.create<
+  Record<string, never>,
+  { markdown: MarkdownNodeSpec }
+>({
+  name: "pageBreak",
+  group: "block",
+  atom: true,
+  selectable: true,
+
+  parseHTML() {
+    return [{ tag: `div.${PAGE_BREAK_CLASS}` }];
+  },
+
+  renderHTML({ HTMLAttributes }) {
+    return [
+      "div",
+      mergeAttributes(HTMLAttributes, {
+        class: PAGE_BREAK_CLASS,
+        "data-label": "Page break",
+      }),
+    ];
+  },
+
+  addCommands() {
+    return {
+      setPageBreak:
+        () =>
+        ({ commands }) =>
+          commands.insertContent({ type: this.name }),
+    };
+  },
+
+  addStorage() {
+    return {
+      markdown: {
+        serialize(state, node) {
+          state.write(PAGE_BREAK_MARKDOWN);
+          state.closeBlock(node);
+        },
+        parse: {
+          setup(markdownit) {
+            (markdownit as unknown as MarkdownIt).use(pageBreakPlugin);
+          },
+        },
+      },
+    };
+  },
+});
@@ -0,0 +1,117 @@
+import type { Editor } from "@tiptap/core";
+import { renderMarkdown } from "../markdown/render";
+
+// Where the caret sits, described in terms both editors understand: the
+// visible text of the block, which of the identical blocks it is, and how far
+// into that text the caret is.
+type BlockPosition = {
+  text: string;
+  occurrence: number;
+  column: number;
+};
+
+const LINE_PREFIX = /^\s*(?:(?:#{1,6}\s+|>\s?|[-*+]\s+(?:\[[ xX]\]\s+)?|\d+[.)]\s+))*/;
+
+const plainText = (line: string): string =>
+  line
+    .replace(LINE_PREFIX, "")
+    .replace(/!?\[([^\]]*)\]\([^)]*\)/g, "$1")
+    .replace(/[*_~`\\]/g, "")
+    .trim();
+
+const matchesBlock = (line: string, text: string): boolean => {
+  const plain = plainText(line);
+  return plain.length > 0 && text.trim().startsWith(plain);
+};
+
+const getCaretBlock = (editor: Editor): BlockPosition => {
+  const { $from } = editor.state.selection;
+  const text = $from.parent.textContent;
+  let occurrence = 0;
+  editor.state.doc.nodesBetween(0, $from.before($from.depth), (node) => {
+    if (node.isTextblock && node !== $from.parent) {
+      if (node.textContent === text) {
+        occurrence += 1;
+      }
+      return false;
+    }
+    return true;
+  });
+  return { text, occurrence, column: $from.parentOffset };
+};
+
+// Maps the rich editor's caret to an offset in the markdown source.
+export const sourceOffsetFromEditor = (
+  editor: Editor,
+  markdown: string
+): number => {
+  const { text, occurrence, column } = getCaretBlock(editor);
+  const lines = markdown.split("\n");
+  let offset = 0;
+  let seen = 0;
+  for (const line of lines) {
+    if (matchesBlock(line, text)) {
+      if (seen === occurrence) {
+        const prefix = line.match(LINE_PREFIX)?.[0].length ?? 0;
+        return offset + Math.min(prefix + column, line.length);
+      }
+      seen += 1;
+    }
+    offset += line.length + 1;
+  }
+  const size = editor.state.doc.content.size;
+  const ratio = size > 0 ? editor.state.selection.from / size : 0;
+  return Math.round(markdown.length * ratio);
+};
+
+// Places the rich editor's caret on the block that holds `offset` in the
+// source, falling back to the same relative position in the document.
+export const focusEditorAtSource = (
+  editor: Editor,
+  markdown: string,
+  offset: number
+) => {
+  const before = markdown.slice(0, offset).split("\n");
+  const lineStart = offset - before[before.length - 1].length;
+  const line = markdown.slice(lineStart).split("\n")[0];
+  const text = plainText(line);
+  const occurrence = before
+    .slice(0, -1)
+    .filter((previous) => plainText(previous) === text).length;
+  const prefix = line.match(LINE_PREFIX)?.[0].length ?? 0;
+  const column = Math.max(0, offset - lineStart - prefix);
+
+  let target: number | null = null;
+  let seen = 0;
+  if (text) {
+    editor.state.doc.descendants((node, pos) => {
+      if (target !== null) {
+        return false;
+      }
+      if (!node.isTextblock) {
+        return true;
+      }
+      if (node.textContent.startsWith(text)) {
+        if (seen === occurrence) {
+          target = pos + 1 + Math.min(column, node.content.size);
+        }
+        seen += 1;
+      }
+      return false;
+    });
+  }
+  const size = editor.state.doc.content.size;
+  const position =
+    target ?? Math.round(size * (markdown ? offset / markdown.length : 0));
+  editor.commands.focus(Math.max(0, Math.min(position, size)));
+};
+
+const normalizeHtml = (html: string) =>
+  html.replace(/>\s+</g, "><").replace(/\s+/g, " ").trim();
+
+// The rich editor keeps content only as well as tiptap-markdown can write it
+// back; comparing the rendered output ignores harmless syntax changes such as
+// `*` bullets becoming `-`.
+export const losesContent = (markdown: string, roundTrip: string): boolean =>
+  normalizeHtml(renderMarkdown(markdown)) !==
+  normalizeHtml(renderMarkdown(roundTrip));
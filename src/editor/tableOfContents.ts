@@ -0,0 +1,63 @@
+import { Node, mergeAttributes } from "@tiptap/core";
+import type MarkdownIt from "markdown-it";
+import type { MarkdownNodeSpec } from "tiptap-markdown";
+import { TOC_CLASS, TOC_MARKDOWN, tocPlugin } from "../markdown/toc";
+
+declare module "@tiptap/core" {
+  interface Commands<ReturnType> {
+    tableOfContents: {
+      setTableOfContents: () => ReturnType;
+    };
+  }
+}
+
+// The generated list lives only in the preview; the editor keeps a single
+// placeholder so the marker survives editing instead of turning into links.
+export const TableOfContents = Node.create<
+  Record<string, never>,
+  { markdown: MarkdownNodeSpec }
+>({
+  name: "tableOfContents",
+  group: "block",
+  atom: true,
+  selectable: true,
+
+  parseHTML() {
+    return [{ tag: `nav.${TOC_CLASS}` }];
+  },
+
+  renderHTML({ HTMLAttributes }) {
+    return [
+      "div",
+      mergeAttributes(HTMLAttributes, {
+        class: "toc-placeholder",
+        "data-label": "Table of contents",
+      }),
+    ];
+  },
+
+  addCommands() {
+    return {
+      setTableOfContents:
+        () =>
+        ({ commands }) =>
+          commands.insertContent({ type: this.name }),
+    };
+  },
+
+  addStorage() {
+    return {
+      markdown: {
+        serialize(state, node) {
+          state.write(TOC_MARKDOWN);
+          state.closeBlock(node);
+        },
+        parse: {
+          setup(markdownit) {
+            (markdownit as unknown as MarkdownIt).use(tocPlugin);
+          },
+        },
+      },
+    };
+  },
+});
@@ -0,0 +1,194 @@
+import DOMPurify from "dompurify";
+import { blobToDataUrl, getImageBlob } from "../assets/images";
+import { getFontBuffer, getStoredVariants } from "../fonts/fonts";
+import { USER_CSS_STYLE_ID } from "../layout/userCss";
+import { waitForDiagrams } from "../markdown/diagrams";
+import {
+  MATH_BLOCK_CLASS,
+  MATH_INLINE_CLASS,
+  renderMath,
+} from "../markdown/math";
+import { downloadBlob } from "./download";
+
+export type ExportHtmlOptions = {
+  previewContent: HTMLElement;
+  title: string;
+  fontFamilies: string[];
+  fileName?: string;
+};
+
+const PREVIEW_SELECTOR = ".preview-content";
+
+// Exported pages are read on screen or printed, not previewed, so page
+// breaks become real print breaks instead of the dashed editor marker.
+const EXPORT_CSS = `
+* { box-sizing: border-box; }
+body { margin: 0; background: var(--panel-bg); color: var(--text-primary); }
+.preview-content .page-break { border: 0; margin: 0; break-after: page; }
+.preview-content .page-break::after { content: none; }
+`;
+
+const escapeHtml = (value: string) =>
+  value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+
+const collectVariables = (): string => {
+  const style = document.documentElement.style;
+  const declarations: string[] = [];
+  for (let index = 0; index < style.length; index += 1) {
+    const name = style[index];
+    if (name.startsWith("--")) {
+      declarations.push(`${name}: ${style.getPropertyValue(name)};`);
+    }
+  }
+  return `:root { ${declarations.join(" ")} }`;
+};
+
+const previewRuleText = (rule: CSSRule): string | null => {
+  if (rule instanceof CSSStyleRule) {
+    return rule.selectorText.includes(PREVIEW_SELECTOR) ? rule.cssText : null;
+  }
+  if (rule instanceof CSSMediaRule) {
+    const inner = Array.from(rule.cssRules).flatMap((child) => {
+      const text = previewRuleText(child);
+      return text ? [text] : [];
+    });
+    return inner.length > 0
+      ? `@media ${rule.media.mediaText} {\n${inner.join("\n")}\n}`
+      : null;
+  }
+  return null;
+};
+
+const collectPreviewRules = (): string => {
+  const rules: string[] = [];
+  Array.from(document.styleSheets).forEach((sheet) => {
+    let cssRules: CSSRuleList;
+    try {
+      cssRules = sheet.cssRules;
+    } catch {
+      return;
+    }
+    // The imported stylesheet is already scoped, and its @media and
+    // @font-face blocks matter as much as the plain rules.
+    if (
+      sheet.ownerNode instanceof Element &&
+      sheet.ownerNode.id === USER_CSS_STYLE_ID
+    ) {
+      Array.from(cssRules).forEach((rule) => rules.push(rule.cssText));
+      return;
+    }
+    Array.from(cssRules).forEach((rule) => {
+      const text = previewRuleText(rule);
+      if (text) {
+        rules.push(text);
+      }
+    });
+  });
+  return rules.join("\n");
+};
+
+const collectFontFaces = async (fontFamily: string): Promise<string> => {
+  const variants = fontFamily === "System" ? null : getStoredVariants(fontFamily);
+  if (!variants) {
+    return "";
+  }
+  const faces = await Promise.all(
+    variants.map(async (variant) => {
+      try {
+        const buffer = await getFontBuffer(variant);
+        const woff2 = variant.url.endsWith(".woff2");
+        const dataUrl = await blobToDataUrl(
+          new Blob([buffer], { type: woff2 ? "font/woff2" : "font/woff" })
+        );
+        return `@font-face { font-family: "${fontFamily}"; src: url(${dataUrl}) format("${
+          woff2 ? "woff2" : "woff"
+        }"); font-weight: ${variant.weight}; font-style: ${variant.style}; }`;
+      } catch {
+        return "";
+      }
+    })
+  );
+  return faces.filter(Boolean).join("\n");
+};
+
+// KaTeX's HTML output depends on its stylesheet and fonts; MathML renders
+// natively, so the file stays self-contained. The TeX annotation goes, as
+// the sanitizer would otherwise leave it behind as visible text.
+const useMathMl = (container: HTMLElement) => {
+  container
+    .querySelectorAll<HTMLElement>(
+      `.${MATH_INLINE_CLASS}, .${MATH_BLOCK_CLASS}`
+    )
+    .forEach((node) => {
+      node.innerHTML = renderMath(
+        node.dataset.latex ?? "",
+        node.classList.contains(MATH_BLOCK_CLASS),
+        "mathml"
+      );
+      node.querySelectorAll("annotation").forEach((item) => item.remove());
+    });
+};
+
+const inlineImages = async (container: HTMLElement): Promise<void> => {
+  await Promise.all(
+    Array.from(container.querySelectorAll("img")).map(async (img) => {
+      const blob = await getImageBlob(img.getAttribute("src") ?? "");
+      if (blob) {
+        img.setAttribute("src", await blobToDataUrl(blob));
+      }
+    })
+  );
+};
+
+export const buildStandaloneHtml = async ({
+  previewContent,
+  title,
+  fontFamilies,
+}: ExportHtmlOptions): Promise<string> => {
+  await waitForDiagrams();
+  const content = previewContent.cloneNode(true) as HTMLElement;
+  useMathMl(content);
+  await inlineImages(content);
+  const body = DOMPurify.sanitize(content.innerHTML);
+  const styles = [
+    collectVariables(),
+    ...(await Promise.all(
+      Array.from(new Set(fontFamilies)).map(collectFontFaces)
+    )),
+    collectPreviewRules(),
+    EXPORT_CSS,
+  ]
+    .filter(Boolean)
+    .join("\n")
+    .replace(/<\/style/gi, "<\\/style");
+
+  return `<!doctype html>
+<html lang="en">
+<head>
+<meta charset="utf-8" />
+<meta name="viewport" content="width=device-width, initial-scale=1" />
+<title>${escapeHtml(title)}</title>
+<style>
+${styles}
+</style>
+</head>
+<body>
+<main class="preview-content">
+${body}
+</main>
+</body>
+</html>
+`;
+};
+
+export const exportHtml = async (options: ExportHtmlOptions): Promise<void> => {
+  const html = await buildStandaloneHtml(options);
+  downloadBlob(
+    new Blob([html], { type: "text/html;charset=utf-8" }),
+    options.fileName ?? "document.html"
+  );
+};
@@ -1,9 +1,19 @@
 import html2pdf from "html2pdf.js";
-import { resolveAppImages } from "../assets/images";
 import { getPageMetrics } from "../layout/pageMetrics";
-import { paginate, Pagination } from "./paginate";
-
-type ExportProgress = {
+import { createPageBands, PageBands } from "../layout/runningBands";
+import { createExportRoot, createPageNode, prepareContent } from "./pageDom";
+import { fillTocPageNumbers } from "../markdown/toc";
+import { paginateContent, Pagination } from "./paginate";
+import {
+  collectDocumentTargets,
+  collectPageLinks,
+  DocumentTargets,
+  PDF_CREATOR,
+  PdfMetadata,
+  PdfOutlineItem,
+} from "./pdfTargets";
+
+export type ExportProgress = {
   step: "measure" | "render" | "done";
   pageCount?: number;
   clamped?: boolean;
@@ -13,6 +23,8 @@ export type ExportPdfOptions = {
   previewContent: HTMLElement;
   pageShell: HTMLElement;
   maxPages: number;
+  bands?: PageBands;
+  metadata?: PdfMetadata;
   fileName?: string;
   onProgress?: (progress: ExportProgress) => void;
 };
@@ -22,118 +34,177 @@ export type ExportPdfResult = {
   cancelled: boolean;
 };
 
-const waitForImages = async (container: HTMLElement): Promise<void> => {
-  const images = Array.from(container.querySelectorAll("img"));
-  if (images.length === 0) {
-    return;
-  }
-  await Promise.all(
-    images.map(
-      (img) =>
-        new Promise<void>((resolve) => {
-          if (img.complete) {
-            resolve();
-          } else {
-            img.onload = () => resolve();
-            img.onerror = () => resolve();
-          }
-        })
-    )
-  );
+type OutlineNode = unknown;
+
+type PdfDocument = {
+  addPage: () => void;
+  link: (
+    x: number,
+    y: number,
+    width: number,
+    height: number,
+    options: { url: string } | { pageNumber: number; top: number }
+  ) => void;
+  outline: {
+    add: (
+      parent: OutlineNode | null,
+      title: string,
+      options: { pageNumber: number }
+    ) => OutlineNode;
+  };
+  setProperties: (properties: Record<string, string>) => void;
+  setCreationDate: (date: Date) => void;
 };
 
-const createExportRoot = (): HTMLDivElement => {
-  const root = document.createElement("div");
-  root.style.position = "fixed";
-  root.style.left = "-100000px";
-  root.style.top = "0";
-  root.style.pointerEvents = "none";
-  document.body.appendChild(root);
-  return root;
+// html2pdf's own link plugin assumes a single tall container, so links are
+// placed per page from the page node we rendered.
+const addPageLinks = (
+  pdf: PdfDocument,
+  page: HTMLElement,
+  targets: DocumentTargets,
+  pxPerMm: number
+) => {
+  collectPageLinks(page, targets).forEach(({ rect, url, target }) => {
+    pdf.link(
+      rect.x / pxPerMm,
+      rect.y / pxPerMm,
+      rect.width / pxPerMm,
+      rect.height / pxPerMm,
+      target
+        ? { pageNumber: target.pageIndex + 1, top: target.topPx / pxPerMm }
+        : { url: url ?? "" }
+    );
+  });
 };
 
-const cloneContent = (source: HTMLElement, widthPx: number): HTMLElement => {
-  const clone = source.cloneNode(true) as HTMLElement;
-  clone.style.padding = "0";
-  clone.style.margin = "0";
-  clone.style.boxSizing = "border-box";
-  clone.style.width = `${widthPx}px`;
-  return clone;
+// jsPDF outline entries can only point at the top of a page.
+const addOutline = (
+  pdf: PdfDocument,
+  items: PdfOutlineItem[],
+  parent: OutlineNode | null = null
+) => {
+  items.forEach((item) => {
+    const node = pdf.outline.add(parent, item.title, {
+      pageNumber: item.target.pageIndex + 1,
+    });
+    addOutline(pdf, item.children, node);
+  });
+};
+
+const applyMetadata = (pdf: PdfDocument, metadata: PdfMetadata) => {
+  pdf.setProperties({
+    title: metadata.title,
+    subject: metadata.subject,
+    author: metadata.author,
+    keywords: metadata.keywords.join(", "),
+    creator: PDF_CREATOR,
+  });
+  pdf.setCreationDate(metadata.createdAt);
 };
 
 export const exportPdf = async ({
   previewContent,
   pageShell,
   maxPages,
+  bands,
+  metadata,
   fileName,
   onProgress,
 }: ExportPdfOptions): Promise<ExportPdfResult> => {
-  const { pageWidthPx, pageHeightPx, marginPx, contentWidthPx, contentHeightPx } =
-    getPageMetrics();
-
-  const exportRoot = createExportRoot();
-  const measureNode = cloneContent(previewContent, contentWidthPx);
-  exportRoot.appendChild(measureNode);
-  await resolveAppImages(measureNode);
-  await waitForImages(measureNode);
-  const totalContentHeightPx = measureNode.scrollHeight;
-  measureNode.remove();
-
-  const pagination = paginate(
-    totalContentHeightPx,
+  const metrics = getPageMetrics();
+  const {
+    pageWidthMm,
+    pageHeightMm,
+    pageHeightPx,
+    contentWidthPx,
     contentHeightPx,
-    maxPages
-  );
-  onProgress?.({
-    step: "measure",
-    pageCount: pagination.pageCount,
-    clamped: pagination.clamped,
-  });
+    pxPerMm,
+  } = metrics;
 
-  if (pagination.pageCount > 1) {
-    const shouldContinue = window.confirm(
-      "Content exceeds one page. Continue exporting to PDF?"
+  const exportRoot = createExportRoot();
+  try {
+    const contentTemplate = await prepareContent(
+      previewContent,
+      exportRoot,
+      contentWidthPx
+    );
+    const pagination = paginateContent(
+      contentTemplate,
+      contentHeightPx,
+      maxPages
     );
-    if (!shouldContinue) {
-      exportRoot.remove();
-      return { pagination, cancelled: true };
+    const targets = collectDocumentTargets(
+      contentTemplate,
+      pagination,
+      metrics
+    );
+    fillTocPageNumbers(contentTemplate, targets.anchors);
+    contentTemplate.remove();
+    onProgress?.({
+      step: "measure",
+      pageCount: pagination.pageCount,
+      clamped: pagination.clamped,
+    });
+
+    if (pagination.pageCount > 1) {
+      const shouldContinue = window.confirm(
+        "Content exceeds one page. Continue exporting to PDF?"
+      );
+      if (!shouldContinue) {
+        return { pagination, cancelled: true };
+      }
     }
-  }
-
-  const exportNode = pageShell.cloneNode(true) as HTMLElement;
-  const marker = exportNode.querySelector(".page-marker");
-  marker?.remove();
-  exportNode.style.boxShadow = "none";
-  exportNode.style.width = `${pageWidthPx}px`;
-  exportNode.style.background = getComputedStyle(pageShell).backgroundColor;
 
-  const content = cloneContent(previewContent, contentWidthPx);
-  await resolveAppImages(content);
-  await waitForImages(content);
-  exportNode.innerHTML = "";
-  exportNode.appendChild(content);
+    // Each page is rendered on its own so html2pdf never re-slices the content;
+    // the node stays a pixel short of the sheet to avoid a trailing blank page.
+    const background = getComputedStyle(pageShell).backgroundColor;
+    const pageNodeHeightPx = Math.floor(pageHeightPx) - 1;
+    const pages = pagination.slices.map((slice, index) => {
+      const page = createPageNode(
+        contentTemplate,
+        slice,
+        index,
+        metrics,
+        background,
+        pageNodeHeightPx,
+        bands ? createPageBands(bands, index + 1, pagination.pageCount) : []
+      );
+      exportRoot.appendChild(page);
+      return page;
+    });
+
+    onProgress?.({ step: "render", pageCount: pagination.pageCount });
+    const worker = html2pdf()
+      .set({
+        margin: 0,
+        filename: fileName ?? "document.pdf",
+        image: { type: "png", quality: 1 },
+        enableLinks: false,
+        html2canvas: { scale: 2, useCORS: true },
+        jsPDF: {
+          unit: "mm",
+          format: [pageWidthMm, pageHeightMm],
+          orientation: pageWidthMm > pageHeightMm ? "landscape" : "portrait",
+        },
+      })
+      .from(pages[0])
+      .toPdf();
+    const pdf: PdfDocument = await worker.get("pdf");
+    addPageLinks(pdf, pages[0], targets, pxPerMm);
+    for (const page of pages.slice(1)) {
+      pdf.addPage();
+      await worker.from(page).toContainer().toCanvas().toPdf();
+      addPageLinks(pdf, page, targets, pxPerMm);
+    }
+    addOutline(pdf, targets.outline);
+    if (metadata) {
+      applyMetadata(pdf, metadata);
+    }
+    await worker.save();
 
-  if (pagination.clamped) {
-    const maxHeightPx = pagination.pageCount * contentHeightPx + marginPx * 2;
-    exportNode.style.maxHeight = `${maxHeightPx}px`;
-    exportNode.style.overflow = "hidden";
+    onProgress?.({ step: "done" });
+    return { pagination, cancelled: false };
+  } finally {
+    exportRoot.remove();
   }
-
-  exportRoot.appendChild(exportNode);
-
-  onProgress?.({ step: "render", pageCount: pagination.pageCount });
-  await html2pdf()
-    .set({
-      margin: 0,
-      filename: fileName ?? "document.pdf",
-      image: { type: "png", quality: 1 },
-      html2canvas: { scale: 2, useCORS: true },
-      jsPDF: { unit: "mm", format: "a4", orientation: "portrait" },
-    })
-    .from(exportNode)
-    .save();
-
-  exportRoot.remove();
-  onProgress?.({ step: "done" });
-  return { pagination, cancelled: false };
 };
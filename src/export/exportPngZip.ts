@@ -1,4 +1,5 @@
 import JSZip from "jszip";
+import type { PageBands } from "../layout/runningBands";
 import { downloadBlob } from "./download";
 import { rasterizePages, RasterizeResult } from "./rasterize";
 
@@ -13,6 +14,7 @@ export type ExportPngZipOptions = {
   pageShell: HTMLElement;
   maxPages: number;
   scale?: number;
+  bands?: PageBands;
   fileName?: string;
   onProgress?: (progress: ExportProgress) => void;
 };
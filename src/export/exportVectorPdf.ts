@@ -0,0 +1,692 @@
+import {
+  PDFDocument,
+  PDFHexString,
+  PDFImage,
+  PDFName,
+  PDFPage,
+  PDFRef,
+  PDFString,
+  RGB,
+  clip,
+  endPath,
+  popGraphicsState,
+  pushGraphicsState,
+  rectangle,
+  rgb,
+} from "pdf-lib";
+import { getPageMetrics } from "../layout/pageMetrics";
+import { createPageBands } from "../layout/runningBands";
+import { fillTocPageNumbers } from "../markdown/toc";
+import { downloadBlob } from "./download";
+import type { ExportPdfOptions, ExportPdfResult } from "./exportPdf";
+import { createExportRoot, createPageNode, prepareContent } from "./pageDom";
+import { paginateContent } from "./paginate";
+import { createPdfFontRegistry, PdfFontRegistry, PdfTextFont } from "./pdfFonts";
+import {
+  collectDocumentTargets,
+  collectPageLinks,
+  countOutlineItems,
+  DocumentTargets,
+  PageLink,
+  PDF_CREATOR,
+  PdfMetadata,
+  PdfOutlineItem,
+  PdfTarget,
+} from "./pdfTargets";
+
+const PT_PER_MM = 72 / 25.4;
+const BORDER_SIDES = ["top", "right", "bottom", "left"] as const;
+
+type PdfColor = {
+  color: RGB;
+  opacity: number;
+};
+
+type PageContext = {
+  pdf: PDFDocument;
+  page: PDFPage;
+  origin: DOMRect;
+  // Points per CSS pixel.
+  scale: number;
+  fonts: PdfFontRegistry;
+  images: Map<string, Promise<PDFImage | null>>;
+  pages: PDFPage[];
+  targets: DocumentTargets;
+};
+
+const parseColor = (value: string): PdfColor | null => {
+  const match = value.match(
+    /^rgba?\(\s*([\d.]+)[,\s]+([\d.]+)[,\s]+([\d.]+)(?:\s*[,/]\s*([\d.]+%?))?\s*\)$/
+  );
+  if (!match) {
+    return null;
+  }
+  const alphaRaw = match[4];
+  const opacity = alphaRaw
+    ? alphaRaw.endsWith("%")
+      ? Number.parseFloat(alphaRaw) / 100
+      : Number.parseFloat(alphaRaw)
+    : 1;
+  if (opacity <= 0) {
+    return null;
+  }
+  return {
+    color: rgb(
+      Number(match[1]) / 255,
+      Number(match[2]) / 255,
+      Number(match[3]) / 255
+    ),
+    opacity,
+  };
+};
+
+const toPdfBox = (ctx: PageContext, rect: DOMRect) => ({
+  x: (rect.left - ctx.origin.left) * ctx.scale,
+  y: ctx.page.getHeight() - (rect.bottom - ctx.origin.top) * ctx.scale,
+  width: rect.width * ctx.scale,
+  height: rect.height * ctx.scale,
+});
+
+const overlaps = (rect: DOMRect, bounds: DOMRect | null) =>
+  !bounds || (rect.bottom > bounds.top && rect.top < bounds.bottom);
+
+const drawBoxes = (ctx: PageContext, element: Element, bounds: DOMRect | null) => {
+  const style = getComputedStyle(element);
+  if (style.visibility === "hidden") {
+    return;
+  }
+  const background = parseColor(style.backgroundColor);
+  Array.from(element.getClientRects())
+    .filter((rect) => rect.width > 0 && rect.height > 0 && overlaps(rect, bounds))
+    .forEach((rect) => {
+      const box = toPdfBox(ctx, rect);
+      if (background) {
+        ctx.page.drawRectangle({
+          ...box,
+          color: background.color,
+          opacity: background.opacity,
+        });
+      }
+      BORDER_SIDES.forEach((side) => {
+        const width = Number.parseFloat(
+          style.getPropertyValue(`border-${side}-width`)
+        );
+        const lineStyle = style.getPropertyValue(`border-${side}-style`);
+        const color = parseColor(style.getPropertyValue(`border-${side}-color`));
+        if (!width || !color || lineStyle === "none" || lineStyle === "hidden") {
+          return;
+        }
+        const thickness = width * ctx.scale;
+        const vertical = side === "left" || side === "right";
+        ctx.page.drawRectangle({
+          x: side === "right" ? box.x + box.width - thickness : box.x,
+          y: side === "top" ? box.y + box.height - thickness : box.y,
+          width: vertical ? thickness : box.width,
+          height: vertical ? box.height : thickness,
+          color: color.color,
+          opacity: color.opacity,
+        });
+      });
+    });
+};
+
+const drawToPng = async (
+  source: CanvasImageSource,
+  width: number,
+  height: number
+): Promise<Uint8Array> => {
+  const canvas = document.createElement("canvas");
+  canvas.width = width;
+  canvas.height = height;
+  const context = canvas.getContext("2d");
+  if (!context) {
+    throw new Error("Canvas is not available.");
+  }
+  context.drawImage(source, 0, 0, width, height);
+  const blob = await new Promise<Blob | null>((resolve) =>
+    canvas.toBlob(resolve, "image/png")
+  );
+  if (!blob) {
+    throw new Error("Image could not be converted.");
+  }
+  return new Uint8Array(await blob.arrayBuffer());
+};
+
+const imageToPng = (img: HTMLImageElement) =>
+  drawToPng(img, img.naturalWidth, img.naturalHeight);
+
+// Inline SVG (diagrams, KaTeX radicals) is rasterised at twice its size;
+// its own text is skipped by the text pass so nothing is drawn twice.
+const SVG_SCALE = 2;
+
+const svgToPng = async (
+  svg: SVGSVGElement,
+  rect: DOMRect
+): Promise<Uint8Array> => {
+  const clone = svg.cloneNode(true) as SVGSVGElement;
+  clone.setAttribute("xmlns", "http://www.w3.org/2000/svg");
+  clone.setAttribute("width", String(rect.width));
+  clone.setAttribute("height", String(rect.height));
+  clone.style.color = getComputedStyle(svg).color;
+  const img = new Image();
+  img.src = `data:image/svg+xml;charset=utf-8,${encodeURIComponent(
+    new XMLSerializer().serializeToString(clone)
+  )}`;
+  await img.decode();
+  return drawToPng(
+    img,
+    Math.ceil(rect.width * SVG_SCALE),
+    Math.ceil(rect.height * SVG_SCALE)
+  );
+};
+
+const embedImage = (ctx: PageContext, img: HTMLImageElement) => {
+  const src = img.currentSrc || img.src;
+  let pending = ctx.images.get(src);
+  if (!pending) {
+    pending = (async () => {
+      try {
+        const blob = await (await fetch(src)).blob();
+        const bytes = new Uint8Array(await blob.arrayBuffer());
+        if (blob.type === "image/png") {
+          return await ctx.pdf.embedPng(bytes);
+        }
+        if (blob.type === "image/jpeg") {
+          return await ctx.pdf.embedJpg(bytes);
+        }
+      } catch {
+        // fall back to re-encoding through a canvas
+      }
+      try {
+        return await ctx.pdf.embedPng(await imageToPng(img));
+      } catch {
+        return null;
+      }
+    })();
+    ctx.images.set(src, pending);
+  }
+  return pending;
+};
+
+const drawImage = async (
+  ctx: PageContext,
+  img: HTMLImageElement,
+  bounds: DOMRect | null
+) => {
+  const rect = img.getBoundingClientRect();
+  if (rect.width === 0 || rect.height === 0 || !overlaps(rect, bounds)) {
+    return;
+  }
+  const image = await embedImage(ctx, img);
+  if (image) {
+    ctx.page.drawImage(image, toPdfBox(ctx, rect));
+  }
+};
+
+const drawSvg = async (
+  ctx: PageContext,
+  svg: SVGSVGElement,
+  bounds: DOMRect | null
+) => {
+  const rect = svg.getBoundingClientRect();
+  if (rect.width === 0 || rect.height === 0 || !overlaps(rect, bounds)) {
+    return;
+  }
+  try {
+    const image = await ctx.pdf.embedPng(await svgToPng(svg, rect));
+    ctx.page.drawImage(image, toPdfBox(ctx, rect));
+  } catch {
+    // an unreadable SVG is left out rather than failing the export
+  }
+};
+
+const applyTextTransform = (text: string, transform: string) => {
+  if (transform === "uppercase") {
+    return text.toUpperCase();
+  }
+  if (transform === "lowercase") {
+    return text.toLowerCase();
+  }
+  return text;
+};
+
+const encodable = (text: string, font: PdfTextFont) =>
+  font.charset
+    ? Array.from(text)
+        .map((char) =>
+          font.charset?.has(char.codePointAt(0) ?? 0) ? char : "?"
+        )
+        .join("")
+    : text;
+
+const drawToken = (
+  ctx: PageContext,
+  text: string,
+  rect: DOMRect,
+  font: PdfTextFont,
+  sizePx: number,
+  color: PdfColor
+) => {
+  const size = sizePx * ctx.scale;
+  const descent =
+    font.font.heightAtSize(size) -
+    font.font.heightAtSize(size, { descender: false });
+  const box = toPdfBox(ctx, rect);
+  ctx.page.drawText(encodable(text, font), {
+    x: box.x,
+    y: box.y + descent,
+    size,
+    font: font.font,
+    color: color.color,
+    opacity: color.opacity,
+  });
+};
+
+// Each word is placed at the position the browser laid it out at, so line
+// breaks and alignment match the preview even where font metrics differ.
+const drawTextNode = async (
+  ctx: PageContext,
+  node: Text,
+  bounds: DOMRect | null
+) => {
+  const parent = node.parentElement;
+  const value = node.textContent ?? "";
+  if (!parent || !value.trim() || parent.closest("svg")) {
+    return;
+  }
+  const style = getComputedStyle(parent);
+  const color = parseColor(style.color);
+  if (style.visibility === "hidden" || !color) {
+    return;
+  }
+  const font = await ctx.fonts.resolve(style);
+  const sizePx = Number.parseFloat(style.fontSize);
+  const range = document.createRange();
+  const place = (start: number, end: number) => {
+    range.setStart(node, start);
+    range.setEnd(node, end);
+    return Array.from(range.getClientRects()).filter((rect) => rect.width > 0);
+  };
+  const visible = (rect: DOMRect) => {
+    const middle = (rect.top + rect.bottom) / 2;
+    return !bounds || (middle > bounds.top && middle < bounds.bottom);
+  };
+
+  for (const match of value.matchAll(/\S+\s*/g)) {
+    const start = match.index ?? 0;
+    const token = match[0];
+    const rects = place(start, start + token.length);
+    if (rects.length === 1) {
+      if (visible(rects[0])) {
+        const text = applyTextTransform(
+          token.replace(/\s+/g, " "),
+          style.textTransform
+        );
+        drawToken(ctx, text, rects[0], font, sizePx, color);
+      }
+      continue;
+    }
+    // The word wraps (long URLs, overflow-wrap); place it character by character.
+    Array.from(token).reduce((offset, char) => {
+      const [rect] = place(offset, offset + char.length);
+      if (rect && char.trim() && visible(rect)) {
+        const text = applyTextTransform(char, style.textTransform);
+        drawToken(ctx, text, rect, font, sizePx, color);
+      }
+      return offset + char.length;
+    }, start);
+  }
+};
+
+const BULLETS: Record<string, string> = {
+  disc: "\u2022",
+  circle: "\u25e6",
+  square: "\u25aa",
+};
+
+const ROMAN_NUMERALS: Array<[number, string]> = [
+  [1000, "m"],
+  [900, "cm"],
+  [500, "d"],
+  [400, "cd"],
+  [100, "c"],
+  [90, "xc"],
+  [50, "l"],
+  [40, "xl"],
+  [10, "x"],
+  [9, "ix"],
+  [5, "v"],
+  [4, "iv"],
+  [1, "i"],
+];
+
+const toRoman = (value: number): string => {
+  let rest = value;
+  let out = "";
+  ROMAN_NUMERALS.forEach(([size, glyph]) => {
+    while (rest >= size) {
+      out += glyph;
+      rest -= size;
+    }
+  });
+  return out;
+};
+
+const listMarkerText = (item: HTMLLIElement, type: string): string | null => {
+  if (BULLETS[type]) {
+    return BULLETS[type];
+  }
+  const list = item.parentElement;
+  const siblings = list
+    ? Array.from(list.children).filter((child) => child.tagName === "LI")
+    : [item];
+  const start = list instanceof HTMLOListElement ? list.start : 1;
+  const ordinal = item.hasAttribute("value")
+    ? item.value
+    : start + siblings.indexOf(item);
+  switch (type) {
+    case "decimal":
+      return `${ordinal}.`;
+    case "lower-alpha":
+    case "lower-latin":
+      return `${String.fromCharCode(96 + ((ordinal - 1) % 26) + 1)}.`;
+    case "upper-alpha":
+    case "upper-latin":
+      return `${String.fromCharCode(64 + ((ordinal - 1) % 26) + 1)}.`;
+    case "lower-roman":
+      return `${toRoman(ordinal)}.`;
+    case "upper-roman":
+      return `${toRoman(ordinal).toUpperCase()}.`;
+    default:
+      return null;
+  }
+};
+
+// List markers are pseudo-elements, so they are drawn from the item's style.
+const drawListMarker = async (
+  ctx: PageContext,
+  item: HTMLLIElement,
+  bounds: DOMRect | null
+) => {
+  const style = getComputedStyle(item);
+  const marker =
+    style.display === "list-item"
+      ? listMarkerText(item, style.listStyleType)
+      : null;
+  const color = parseColor(style.color);
+  const range = document.createRange();
+  range.selectNodeContents(item);
+  const [firstLine] = Array.from(range.getClientRects()).filter(
+    (rect) => rect.width > 0
+  );
+  if (!marker || !color || !firstLine || !overlaps(firstLine, bounds)) {
+    return;
+  }
+  const font = await ctx.fonts.resolve(style);
+  const sizePx = Number.parseFloat(style.fontSize);
+  const text =
+    font.charset && !font.charset.has(marker.codePointAt(0) ?? 0)
+      ? BULLETS.disc
+      : marker;
+  const widthPx = font.font.widthOfTextAtSize(text, sizePx);
+  const left = item.getBoundingClientRect().left - widthPx - sizePx * 0.5;
+  const rect = new DOMRect(left, firstLine.top, widthPx, firstLine.height);
+  drawToken(ctx, text, rect, font, sizePx, color);
+};
+
+const destination = (
+  pdf: PDFDocument,
+  pages: PDFPage[],
+  target: PdfTarget,
+  scale: number
+) => {
+  const page = pages[target.pageIndex];
+  return pdf.context.obj([
+    page.ref,
+    "XYZ",
+    null,
+    page.getHeight() - target.topPx * scale,
+    null,
+  ]);
+};
+
+const addLinkAnnotation = (ctx: PageContext, link: PageLink) => {
+  const x = link.rect.x * ctx.scale;
+  const y = ctx.page.getHeight() - (link.rect.y + link.rect.height) * ctx.scale;
+  const action = link.target
+    ? { Dest: destination(ctx.pdf, ctx.pages, link.target, ctx.scale) }
+    : { A: { Type: "Action", S: "URI", URI: PDFString.of(link.url ?? "") } };
+  const annotation = ctx.pdf.context.register(
+    ctx.pdf.context.obj({
+      Type: "Annot",
+      Subtype: "Link",
+      Rect: [
+        x,
+        y,
+        x + link.rect.width * ctx.scale,
+        y + link.rect.height * ctx.scale,
+      ],
+      Border: [0, 0, 0],
+      ...action,
+    })
+  );
+  ctx.page.node.addAnnot(annotation);
+};
+
+const drawTree = async (
+  ctx: PageContext,
+  root: Element,
+  bounds: DOMRect | null
+) => {
+  const elements = [root, ...Array.from(root.querySelectorAll("*"))];
+  elements.forEach((element) => drawBoxes(ctx, element, bounds));
+  for (const img of Array.from(root.querySelectorAll("img"))) {
+    await drawImage(ctx, img, bounds);
+  }
+  // Nested <svg> elements are drawn as part of their outermost ancestor.
+  for (const svg of Array.from(root.querySelectorAll("svg"))) {
+    if (!svg.parentElement?.closest("svg")) {
+      await drawSvg(ctx, svg, bounds);
+    }
+  }
+  const walker = document.createTreeWalker(root, NodeFilter.SHOW_TEXT);
+  for (let node = walker.nextNode(); node; node = walker.nextNode()) {
+    await drawTextNode(ctx, node as Text, bounds);
+  }
+  for (const item of Array.from(root.querySelectorAll("li"))) {
+    await drawListMarker(ctx, item, bounds);
+  }
+};
+
+const drawPage = async (ctx: PageContext, pageNode: HTMLElement) => {
+  const background = parseColor(getComputedStyle(pageNode).backgroundColor);
+  if (background) {
+    ctx.page.drawRectangle({
+      x: 0,
+      y: 0,
+      width: ctx.page.getWidth(),
+      height: ctx.page.getHeight(),
+      color: background.color,
+      opacity: background.opacity,
+    });
+  }
+
+  const viewport = pageNode.querySelector<HTMLElement>(".page-slice");
+  if (viewport) {
+    const bounds = viewport.getBoundingClientRect();
+    const box = toPdfBox(ctx, bounds);
+    ctx.page.pushOperators(
+      pushGraphicsState(),
+      rectangle(box.x, box.y, box.width, box.height),
+      clip(),
+      endPath()
+    );
+    await drawTree(ctx, viewport, bounds);
+    ctx.page.pushOperators(popGraphicsState());
+  }
+  for (const band of Array.from(pageNode.querySelectorAll(".page-band"))) {
+    await drawTree(ctx, band, null);
+  }
+  collectPageLinks(pageNode, ctx.targets).forEach((link) =>
+    addLinkAnnotation(ctx, link)
+  );
+};
+
+// pdf-lib has no outline API, so the /Outlines tree is written by hand.
+const addOutline = (
+  pdf: PDFDocument,
+  pages: PDFPage[],
+  items: PdfOutlineItem[],
+  scale: number
+) => {
+  if (items.length === 0) {
+    return;
+  }
+  const writeLevel = (level: PdfOutlineItem[], parent: PDFRef) => {
+    const refs = level.map(() => pdf.context.nextRef());
+    level.forEach((item, index) => {
+      const children =
+        item.children.length > 0 ? writeLevel(item.children, refs[index]) : null;
+      pdf.context.assign(
+        refs[index],
+        pdf.context.obj({
+          Title: PDFHexString.fromText(item.title),
+          Parent: parent,
+          Dest: destination(pdf, pages, item.target, scale),
+          ...(index > 0 ? { Prev: refs[index - 1] } : {}),
+          ...(index < refs.length - 1 ? { Next: refs[index + 1] } : {}),
+          ...(children
+            ? {
+                First: children[0],
+                Last: children[children.length - 1],
+                Count: countOutlineItems(item.children),
+              }
+            : {}),
+        })
+      );
+    });
+    return refs;
+  };
+  const root = pdf.context.nextRef();
+  const top = writeLevel(items, root);
+  pdf.context.assign(
+    root,
+    pdf.context.obj({
+      Type: "Outlines",
+      First: top[0],
+      Last: top[top.length - 1],
+      Count: countOutlineItems(items),
+    })
+  );
+  pdf.catalog.set(PDFName.of("Outlines"), root);
+  pdf.catalog.set(PDFName.of("PageMode"), PDFName.of("UseOutlines"));
+};
+
+const applyMetadata = (pdf: PDFDocument, metadata: PdfMetadata) => {
+  pdf.setTitle(metadata.title, { showInWindowTitleBar: true });
+  pdf.setSubject(metadata.subject);
+  pdf.setAuthor(metadata.author);
+  pdf.setKeywords(metadata.keywords);
+  pdf.setCreationDate(metadata.createdAt);
+  pdf.setCreator(PDF_CREATOR);
+};
+
+export const exportVectorPdf = async ({
+  previewContent,
+  pageShell,
+  maxPages,
+  bands,
+  metadata,
+  fileName,
+  onProgress,
+}: ExportPdfOptions): Promise<ExportPdfResult> => {
+  const metrics = getPageMetrics();
+  const { pageWidthMm, pageHeightMm, contentWidthPx, contentHeightPx } = metrics;
+
+  const exportRoot = createExportRoot();
+  try {
+    const contentTemplate = await prepareContent(
+      previewContent,
+      exportRoot,
+      contentWidthPx
+    );
+    const pagination = paginateContent(
+      contentTemplate,
+      contentHeightPx,
+      maxPages
+    );
+    const targets = collectDocumentTargets(
+      contentTemplate,
+      pagination,
+      metrics
+    );
+    fillTocPageNumbers(contentTemplate, targets.anchors);
+    contentTemplate.remove();
+    onProgress?.({
+      step: "measure",
+      pageCount: pagination.pageCount,
+      clamped: pagination.clamped,
+    });
+
+    if (pagination.pageCount > 1) {
+      const shouldContinue = window.confirm(
+        "Content exceeds one page. Continue exporting to PDF?"
+      );
+      if (!shouldContinue) {
+        return { pagination, cancelled: true };
+      }
+    }
+
+    onProgress?.({ step: "render", pageCount: pagination.pageCount });
+    const pdf = await PDFDocument.create();
+    const fonts = createPdfFontRegistry(pdf);
+    const images = new Map<string, Promise<PDFImage | null>>();
+    const background = getComputedStyle(pageShell).backgroundColor;
+    // Every page exists up front so links can point forward.
+    const pages = pagination.slices.map(() =>
+      pdf.addPage([pageWidthMm * PT_PER_MM, pageHeightMm * PT_PER_MM])
+    );
+    const scale = PT_PER_MM / metrics.pxPerMm;
+
+    for (const [index, slice] of pagination.slices.entries()) {
+      const pageNode = createPageNode(
+        contentTemplate,
+        slice,
+        index,
+        metrics,
+        background,
+        metrics.pageHeightPx,
+        bands ? createPageBands(bands, index + 1, pagination.pageCount) : []
+      );
+      exportRoot.appendChild(pageNode);
+      await drawPage(
+        {
+          pdf,
+          page: pages[index],
+          origin: pageNode.getBoundingClientRect(),
+          scale,
+          fonts,
+          images,
+          pages,
+          targets,
+        },
+        pageNode
+      );
+      pageNode.remove();
+    }
+    addOutline(pdf, pages, targets.outline, scale);
+    if (metadata) {
+      applyMetadata(pdf, metadata);
+    }
+
+    const bytes = await pdf.save();
+    downloadBlob(
+      new Blob([bytes as BlobPart], { type: "application/pdf" }),
+      fileName ?? "document.pdf"
+    );
+    onProgress?.({ step: "done" });
+    return { pagination, cancelled: false };
+  } finally {
+    exportRoot.remove();
+  }
+};
@@ -0,0 +1,128 @@
+import { resolveAppImages } from "../assets/images";
+import {
+  getPageMetrics,
+  pageMarginsPx,
+  PageMetrics,
+} from "../layout/pageMetrics";
+import { MARGIN_SIDES } from "../layout/pageMargins";
+import { waitForDiagrams } from "../markdown/diagrams";
+import { paginateContent, PageSlice, Pagination } from "./paginate";
+
+export const waitForImages = async (container: HTMLElement): Promise<void> => {
+  const images = Array.from(container.querySelectorAll("img"));
+  if (images.length === 0) {
+    return;
+  }
+  await Promise.all(
+    images.map(
+      (img) =>
+        new Promise<void>((resolve) => {
+          if (img.complete) {
+            resolve();
+          } else {
+            img.onload = () => resolve();
+            img.onerror = () => resolve();
+          }
+        })
+    )
+  );
+};
+
+// Web fonts (imported families, KaTeX) only start loading once the content
+// is laid out, so measuring before they settle gives the wrong heights.
+export const waitForFonts = async (container: HTMLElement): Promise<void> => {
+  void container.offsetHeight;
+  await document.fonts.ready;
+};
+
+export const createExportRoot = (): HTMLDivElement => {
+  const root = document.createElement("div");
+  root.style.position = "fixed";
+  root.style.left = "-100000px";
+  root.style.top = "0";
+  root.style.pointerEvents = "none";
+  document.body.appendChild(root);
+  return root;
+};
+
+export const cloneContent = (
+  source: HTMLElement,
+  widthPx: number
+): HTMLElement => {
+  const clone = source.cloneNode(true) as HTMLElement;
+  clone.style.padding = "0";
+  clone.style.margin = "0";
+  clone.style.boxSizing = "border-box";
+  clone.style.width = `${widthPx}px`;
+  return clone;
+};
+
+export const prepareContent = async (
+  source: HTMLElement,
+  exportRoot: HTMLElement,
+  widthPx: number
+): Promise<HTMLElement> => {
+  await waitForDiagrams();
+  const content = cloneContent(source, widthPx);
+  exportRoot.appendChild(content);
+  await resolveAppImages(content);
+  await waitForImages(content);
+  await waitForFonts(content);
+  return content;
+};
+
+export const createPageNode = (
+  content: HTMLElement,
+  slice: PageSlice,
+  pageIndex: number,
+  metrics: PageMetrics,
+  background: string,
+  heightPx = metrics.pageHeightPx,
+  decorations: HTMLElement[] = []
+): HTMLElement => {
+  const page = document.createElement("div");
+  page.className = "page-shell";
+  page.style.width = `${metrics.pageWidthPx}px`;
+  page.style.height = `${heightPx}px`;
+  page.style.minHeight = `${heightPx}px`;
+  const margins = pageMarginsPx(metrics, pageIndex);
+  page.style.padding = MARGIN_SIDES.map((side) => `${margins[side]}px`).join(
+    " "
+  );
+  // Running bands sit in the margins, which swap sides on mirrored pages.
+  MARGIN_SIDES.forEach((side) => {
+    page.style.setProperty(`--page-margin-${side}`, `${margins[side]}px`);
+  });
+  page.style.boxSizing = "border-box";
+  page.style.overflow = "hidden";
+  page.style.boxShadow = "none";
+  page.style.background = background;
+
+  // The slice window hides whatever follows the chosen break on this page.
+  const viewport = document.createElement("div");
+  viewport.className = "page-slice";
+  viewport.style.height = `${slice.height}px`;
+  viewport.style.overflow = "hidden";
+
+  const pageContent = content.cloneNode(true) as HTMLElement;
+  pageContent.style.transform = `translateY(-${slice.offset}px)`;
+  pageContent.style.willChange = "transform";
+  viewport.appendChild(pageContent);
+  page.appendChild(viewport);
+  decorations.forEach((node) => page.appendChild(node));
+  return page;
+};
+
+export const measurePagination = async (
+  source: HTMLElement,
+  maxPages: number
+): Promise<Pagination> => {
+  const { contentWidthPx, contentHeightPx } = getPageMetrics();
+  const exportRoot = createExportRoot();
+  try {
+    const content = await prepareContent(source, exportRoot, contentWidthPx);
+    return paginateContent(content, contentHeightPx, maxPages);
+  } finally {
+    exportRoot.remove();
+  }
+};
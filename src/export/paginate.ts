@@ -1,11 +1,55 @@
+import { PAGE_BREAK_CLASS } from "../markdown/pageBreak";
+
+export type PageSlice = {
+  offset: number;
+  height: number;
+};
+
 export type Pagination = {
   pageCount: number;
   pageContentHeightPx: number;
   totalContentHeightPx: number;
   offsets: number[];
+  slices: PageSlice[];
   clamped: boolean;
 };
 
+type LineBox = {
+  top: number;
+  bottom: number;
+};
+
+const HEADING_TAGS = new Set(["H1", "H2", "H3", "H4", "H5", "H6"]);
+// Elements that are measured as a whole and never split across pages.
+const ATOMIC_TAGS = new Set(["IMG", "SVG", "CANVAS", "VIDEO", "HR", "TR"]);
+const FLOW_DISPLAYS = new Set([
+  "block",
+  "flow-root",
+  "list-item",
+  "table",
+  "table-row-group",
+  "table-header-group",
+  "table-footer-group",
+]);
+
+const toPagination = (
+  slices: PageSlice[],
+  totalContentHeightPx: number,
+  pageContentHeightPx: number,
+  maxPages: number
+): Pagination => {
+  const safeMax = Math.max(1, Math.floor(maxPages));
+  const kept = slices.slice(0, safeMax);
+  return {
+    pageCount: kept.length,
+    pageContentHeightPx,
+    totalContentHeightPx,
+    offsets: kept.map((slice) => slice.offset),
+    slices: kept,
+    clamped: slices.length > kept.length,
+  };
+};
+
 export const paginate = (
   totalContentHeightPx: number,
   pageContentHeightPx: number,
@@ -13,15 +57,187 @@ export const paginate = (
 ): Pagination => {
   const safePageHeight = Math.max(1, pageContentHeightPx);
   const rawCount = Math.max(1, Math.ceil(totalContentHeightPx / safePageHeight));
-  const safeMax = Math.max(1, Math.floor(maxPages));
-  const pageCount = Math.min(rawCount, safeMax);
-  const offsets = Array.from({ length: pageCount }, (_, index) => index * safePageHeight);
+  const slices = Array.from({ length: rawCount }, (_, index) => ({
+    offset: index * safePageHeight,
+    height: safePageHeight,
+  }));
+  return toPagination(slices, totalContentHeightPx, safePageHeight, maxPages);
+};
 
-  return {
-    pageCount,
-    pageContentHeightPx: safePageHeight,
-    totalContentHeightPx,
-    offsets,
-    clamped: rawCount !== pageCount,
+const collectLineRects = (node: Node, range: Range, rects: DOMRect[]) => {
+  node.childNodes.forEach((child) => {
+    if (child.nodeType === Node.TEXT_NODE) {
+      if (!child.textContent?.trim()) {
+        return;
+      }
+      range.selectNodeContents(child);
+      rects.push(...Array.from(range.getClientRects()));
+      return;
+    }
+    if (!(child instanceof Element)) {
+      return;
+    }
+    if (ATOMIC_TAGS.has(child.tagName.toUpperCase())) {
+      rects.push(...Array.from(child.getClientRects()));
+      return;
+    }
+    collectLineRects(child, range, rects);
+  });
+};
+
+const getLineBoxes = (element: Element, originTop: number): LineBox[] => {
+  const rects: DOMRect[] = [];
+  collectLineRects(element, document.createRange(), rects);
+  const lines: LineBox[] = [];
+  rects
+    .filter((rect) => rect.height > 0 && rect.width > 0)
+    .sort((a, b) => a.top - b.top)
+    .forEach((rect) => {
+      const top = rect.top - originTop;
+      const bottom = rect.bottom - originTop;
+      const last = lines[lines.length - 1];
+      if (last && top < last.bottom - 1) {
+        last.bottom = Math.max(last.bottom, bottom);
+        return;
+      }
+      lines.push({ top, bottom });
+    });
+  return lines;
+};
+
+const hasFlowChildren = (element: Element): boolean =>
+  Array.from(element.children).some((child) =>
+    FLOW_DISPLAYS.has(getComputedStyle(child).display)
+  );
+
+type ForcedBreak = {
+  at: number;
+  resume: number;
+};
+
+type BreakMap = {
+  candidates: number[];
+  keepZones: Array<[number, number]>;
+  forced: ForcedBreak[];
+  contentBottom: number;
+};
+
+const collectBreaks = (parent: Element, originTop: number, map: BreakMap) => {
+  const children = Array.from(parent.children).filter(
+    (child) => getComputedStyle(child).display !== "none"
+  );
+  children.forEach((child, index) => {
+    const rect = child.getBoundingClientRect();
+    const top = rect.top - originTop;
+    if (child.classList.contains(PAGE_BREAK_CLASS)) {
+      map.forced.push({ at: top, resume: rect.bottom - originTop });
+      return;
+    }
+    if (rect.height === 0) {
+      return;
+    }
+    const tag = child.tagName.toUpperCase();
+    map.candidates.push(top);
+    map.contentBottom = Math.max(map.contentBottom, rect.bottom - originTop);
+
+    if (HEADING_TAGS.has(tag)) {
+      // Keep a heading with at least the first line of the block after it.
+      const next = children[index + 1];
+      if (next) {
+        const nextLines = getLineBoxes(next, originTop);
+        const keepUntil =
+          nextLines[0]?.bottom ?? next.getBoundingClientRect().bottom - originTop;
+        map.keepZones.push([top, keepUntil]);
+      }
+      return;
+    }
+    if (ATOMIC_TAGS.has(tag)) {
+      return;
+    }
+    if (hasFlowChildren(child)) {
+      collectBreaks(child, originTop, map);
+      return;
+    }
+    const lines = getLineBoxes(child, originTop);
+    for (let line = 1; line < lines.length; line += 1) {
+      map.candidates.push((lines[line - 1].bottom + lines[line].top) / 2);
+    }
+  });
+};
+
+export const paginateContent = (
+  content: HTMLElement,
+  pageContentHeightPx: number,
+  maxPages: number
+): Pagination => {
+  const safePageHeight = Math.max(1, pageContentHeightPx);
+  const originTop = content.getBoundingClientRect().top;
+  const totalContentHeightPx = content.scrollHeight;
+  const map: BreakMap = {
+    candidates: [],
+    keepZones: [],
+    forced: [],
+    contentBottom: 0,
   };
+  collectBreaks(content, originTop, map);
+  // Nothing but a trailing break's spacing below this point.
+  const contentEnd = Math.min(totalContentHeightPx, map.contentBottom);
+
+  const candidates = Array.from(new Set(map.candidates))
+    .filter(
+      (y) =>
+        y > 0 &&
+        y < totalContentHeightPx &&
+        !map.keepZones.some(([start, end]) => y > start && y < end)
+    )
+    .sort((a, b) => a - b);
+
+  const forced = map.forced.sort((a, b) => a.at - b.at);
+  let nextForced = 0;
+  const slices: PageSlice[] = [];
+  let start = 0;
+  while (start < contentEnd - 1) {
+    const limit = start + safePageHeight;
+    while (nextForced < forced.length && forced[nextForced].at < start) {
+      nextForced += 1;
+    }
+    const pageBreak = forced[nextForced];
+    if (pageBreak && pageBreak.at <= limit) {
+      // A break at the very top of the document would only add a blank page.
+      if (slices.length > 0 || pageBreak.at > start + 1) {
+        slices.push({ offset: start, height: pageBreak.at - start });
+      }
+      start = pageBreak.resume;
+      nextForced += 1;
+      continue;
+    }
+    if (limit >= totalContentHeightPx) {
+      slices.push({ offset: start, height: totalContentHeightPx - start });
+      break;
+    }
+    let end = limit;
+    for (let index = candidates.length - 1; index >= 0; index -= 1) {
+      const y = candidates[index];
+      if (y <= limit && y > start + 1) {
+        end = y;
+        break;
+      }
+    }
+    // Blocks taller than a page (large images, long rows) fall back to a hard cut.
+    slices.push({ offset: start, height: end - start });
+    start = end;
+  }
+  if (slices.length === 0) {
+    slices.push({
+      offset: 0,
+      height: Math.min(totalContentHeightPx, safePageHeight),
+    });
+  }
+
+  return toPagination(
+    slices,
+    totalContentHeightPx,
+    safePageHeight,
+    maxPages
+  );
 };
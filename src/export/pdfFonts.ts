@@ -0,0 +1,157 @@
+import fontkit from "@pdf-lib/fontkit";
+import { PDFDocument, PDFFont, StandardFonts } from "pdf-lib";
+import { FontVariant, getFontBuffer, getStoredVariants } from "../fonts/fonts";
+
+export type PdfTextFont = {
+  font: PDFFont;
+  // Standard fonts only cover WinAnsi; anything else has to be replaced.
+  charset: Set<number> | null;
+};
+
+export type PdfFontRegistry = {
+  resolve: (style: CSSStyleDeclaration) => Promise<PdfTextFont>;
+};
+
+const MONOSPACE_FAMILIES = new Set([
+  "monospace",
+  "ui-monospace",
+  "menlo",
+  "monaco",
+  "consolas",
+  "courier",
+  "courier new",
+  "sf mono",
+]);
+const SERIF_FAMILIES = new Set([
+  "serif",
+  "ui-serif",
+  "georgia",
+  "times",
+  "times new roman",
+  "cambria",
+]);
+const SANS_FAMILIES = new Set([
+  "sans-serif",
+  "system-ui",
+  "ui-sans-serif",
+  "-apple-system",
+  "segoe ui",
+  "helvetica",
+  "arial",
+]);
+
+const standardFonts = {
+  sans: [
+    StandardFonts.Helvetica,
+    StandardFonts.HelveticaBold,
+    StandardFonts.HelveticaOblique,
+    StandardFonts.HelveticaBoldOblique,
+  ],
+  serif: [
+    StandardFonts.TimesRoman,
+    StandardFonts.TimesRomanBold,
+    StandardFonts.TimesRomanItalic,
+    StandardFonts.TimesRomanBoldItalic,
+  ],
+  mono: [
+    StandardFonts.Courier,
+    StandardFonts.CourierBold,
+    StandardFonts.CourierOblique,
+    StandardFonts.CourierBoldOblique,
+  ],
+};
+
+const parseFamilies = (value: string): string[] =>
+  value
+    .split(",")
+    .map((family) => family.trim().replace(/^["']|["']$/g, ""))
+    .filter(Boolean);
+
+const closestVariant = (
+  variants: FontVariant[],
+  weight: number,
+  italic: boolean
+): FontVariant | null => {
+  let best: FontVariant | null = null;
+  let bestScore = Number.POSITIVE_INFINITY;
+  variants.forEach((variant) => {
+    const styleMiss = (variant.style === "italic") !== italic ? 1000 : 0;
+    const score = styleMiss + Math.abs(variant.weight - weight);
+    if (score < bestScore) {
+      best = variant;
+      bestScore = score;
+    }
+  });
+  return best;
+};
+
+export const createPdfFontRegistry = (pdf: PDFDocument): PdfFontRegistry => {
+  pdf.registerFontkit(fontkit);
+  const byStyle = new Map<string, Promise<PdfTextFont>>();
+  const byUrl = new Map<string, Promise<PDFFont | null>>();
+  const byStandard = new Map<StandardFonts, Promise<PdfTextFont>>();
+
+  const embedVariant = (variant: FontVariant): Promise<PDFFont | null> => {
+    let pending = byUrl.get(variant.url);
+    if (!pending) {
+      pending = getFontBuffer(variant)
+        .then((buffer) => pdf.embedFont(new Uint8Array(buffer), { subset: true }))
+        .catch(() => null);
+      byUrl.set(variant.url, pending);
+    }
+    return pending;
+  };
+
+  const embedStandard = (name: StandardFonts): Promise<PdfTextFont> => {
+    let pending = byStandard.get(name);
+    if (!pending) {
+      pending = pdf.embedFont(name).then((font) => ({
+        font,
+        charset: new Set(font.getCharacterSet()),
+      }));
+      byStandard.set(name, pending);
+    }
+    return pending;
+  };
+
+  const load = async (
+    families: string[],
+    weight: number,
+    italic: boolean
+  ): Promise<PdfTextFont> => {
+    const variantIndex = (weight >= 600 ? 1 : 0) + (italic ? 2 : 0);
+    for (const family of families) {
+      const key = family.toLowerCase();
+      if (MONOSPACE_FAMILIES.has(key)) {
+        return embedStandard(standardFonts.mono[variantIndex]);
+      }
+      if (SERIF_FAMILIES.has(key)) {
+        return embedStandard(standardFonts.serif[variantIndex]);
+      }
+      if (SANS_FAMILIES.has(key)) {
+        return embedStandard(standardFonts.sans[variantIndex]);
+      }
+      const variants = getStoredVariants(family);
+      const variant = variants ? closestVariant(variants, weight, italic) : null;
+      const font = variant ? await embedVariant(variant) : null;
+      if (font) {
+        return { font, charset: null };
+      }
+    }
+    return embedStandard(standardFonts.sans[variantIndex]);
+  };
+
+  const resolve = (style: CSSStyleDeclaration): Promise<PdfTextFont> => {
+    const weight = Number.parseInt(style.fontWeight, 10) || 400;
+    const italic = style.fontStyle === "italic" || style.fontStyle.startsWith("oblique");
+    const key = `${style.fontFamily}|${weight}|${italic}`;
+    let pending = byStyle.get(key);
+    if (!pending) {
+      pending = load(parseFamilies(style.fontFamily), weight, italic);
+      byStyle.set(key, pending);
+    }
+    return pending;
+  };
+
+  return { resolve };
+};
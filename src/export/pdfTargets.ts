@@ -0,0 +1,156 @@
+import type { PageMetrics } from "../layout/pageMetrics";
+import type { Pagination } from "./paginate";
+
+export const PDF_CREATOR = "Markdown Stylizer Online";
+
+export type PdfMetadata = {
+  title: string;
+  author: string;
+  subject: string;
+  keywords: string[];
+  createdAt: Date;
+};
+
+// A point in the exported document: page index plus distance from the top
+// edge of that page, in CSS pixels.
+export type PdfTarget = {
+  pageIndex: number;
+  topPx: number;
+};
+
+export type PdfOutlineItem = {
+  title: string;
+  target: PdfTarget;
+  children: PdfOutlineItem[];
+};
+
+export type DocumentTargets = {
+  outline: PdfOutlineItem[];
+  anchors: Map<string, PdfTarget>;
+};
+
+export type PageLink = {
+  // Relative to the page node, in CSS pixels.
+  rect: { x: number; y: number; width: number; height: number };
+  url: string | null;
+  target: PdfTarget | null;
+};
+
+const HEADING_SELECTOR = "h1, h2, h3, h4, h5, h6";
+
+const locate = (
+  offsetPx: number,
+  pagination: Pagination,
+  metrics: PageMetrics
+): PdfTarget | null => {
+  const pageIndex = pagination.slices.findIndex(
+    (slice) => offsetPx < slice.offset + slice.height
+  );
+  if (pageIndex === -1) {
+    return null;
+  }
+  const slice = pagination.slices[pageIndex];
+  return {
+    pageIndex,
+    topPx: metrics.margins.top + Math.max(0, offsetPx - slice.offset),
+  };
+};
+
+// Must run while the measured content is still attached to the export root.
+export const collectDocumentTargets = (
+  content: HTMLElement,
+  pagination: Pagination,
+  metrics: PageMetrics
+): DocumentTargets => {
+  const originTop = content.getBoundingClientRect().top;
+  const anchors = new Map<string, PdfTarget>();
+  content.querySelectorAll<HTMLElement>("[id]").forEach((element) => {
+    const target = locate(
+      element.getBoundingClientRect().top - originTop,
+      pagination,
+      metrics
+    );
+    if (target && !anchors.has(element.id)) {
+      anchors.set(element.id, target);
+    }
+  });
+
+  const outline: PdfOutlineItem[] = [];
+  const stack: Array<{ level: number; item: PdfOutlineItem }> = [];
+  content.querySelectorAll<HTMLElement>(HEADING_SELECTOR).forEach((heading) => {
+    const title = heading.textContent?.trim();
+    const target = locate(
+      heading.getBoundingClientRect().top - originTop,
+      pagination,
+      metrics
+    );
+    if (!title || !target) {
+      return;
+    }
+    const level = Number(heading.tagName.slice(1));
+    const item: PdfOutlineItem = { title, target, children: [] };
+    while (stack.length > 0 && stack[stack.length - 1].level >= level) {
+      stack.pop();
+    }
+    const parent = stack[stack.length - 1];
+    (parent ? parent.item.children : outline).push(item);
+    stack.push({ level, item });
+  });
+
+  return { outline, anchors };
+};
+
+const decodeAnchor = (value: string): string => {
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    return value;
+  }
+};
+
+export const collectPageLinks = (
+  page: HTMLElement,
+  targets: DocumentTargets
+): PageLink[] => {
+  const pageRect = page.getBoundingClientRect();
+  const viewport = page.querySelector(".page-slice")?.getBoundingClientRect();
+  if (!viewport) {
+    return [];
+  }
+  const links: PageLink[] = [];
+  page.querySelectorAll<HTMLAnchorElement>("a[href]").forEach((link) => {
+    const href = link.getAttribute("href") ?? "";
+    const target = href.startsWith("#")
+      ? targets.anchors.get(decodeAnchor(href.slice(1))) ?? null
+      : null;
+    const url =
+      !href.startsWith("#") && /^(https?|mailto|tel):/i.test(link.href)
+        ? link.href
+        : null;
+    if (!url && !target) {
+      return;
+    }
+    Array.from(link.getClientRects()).forEach((rect) => {
+      if (rect.bottom <= viewport.top || rect.top >= viewport.bottom) {
+        return;
+      }
+      links.push({
+        rect: {
+          x: rect.left - pageRect.left,
+          y: rect.top - pageRect.top,
+          width: rect.width,
+          height: rect.height,
+        },
+        url,
+        target,
+      });
+    });
+  });
+  return links;
+};
+
+export const countOutlineItems = (items: PdfOutlineItem[]): number =>
+  items.reduce(
+    (count, item) => count + 1 + countOutlineItems(item.children),
+    0
+  );
@@ -1,8 +1,8 @@
-const CACHE_NAME = "mso-fonts-v1";
+export const FONT_CACHE_NAME = "mso-fonts-v1";
 const RESOLVE_ENDPOINT = "/api/google-fonts/resolve";
 const MAX_VARIANTS = 4;
 const MAX_FONT_BYTES = 5 * 1024 * 1024;
-const VARIANT_STORE_KEY = "mso-font-variants";
+export const FONT_VARIANTS_KEY = "mso-font-variants";
 
 export type FontVariant = {
   url: string;
@@ -27,10 +27,14 @@ export const popularFonts = [
   "Ubuntu",
 ];
 
-type VariantStore = Record<string, FontVariant[]>;
+// Google Fonts families the user imported, with the files chosen for each.
+export type FontVariantStore = Record<string, FontVariant[]>;
 
 const allowedNameRegex = /^[a-z0-9 '\-]{1,80}$/i;
 
+export const isFontFamilyName = (value: unknown): value is string =>
+  typeof value === "string" && allowedNameRegex.test(value);
+
 const normalizeName = (input: string): string | null => {
   const trimmed = input.trim().replace(/\s+/g, " ");
   if (!allowedNameRegex.test(trimmed)) {
@@ -158,25 +162,70 @@ export const storeFontVariants = (
   familyName: string,
   variants: FontVariant[]
 ): void => {
-  const raw = localStorage.getItem(VARIANT_STORE_KEY);
-  const store = raw ? (JSON.parse(raw) as VariantStore) : {};
+  const raw = localStorage.getItem(FONT_VARIANTS_KEY);
+  const store = raw ? (JSON.parse(raw) as FontVariantStore) : {};
   store[familyName] = variants;
-  localStorage.setItem(VARIANT_STORE_KEY, JSON.stringify(store));
+  localStorage.setItem(FONT_VARIANTS_KEY, JSON.stringify(store));
 };
 
 export const getStoredVariants = (familyName: string): FontVariant[] | null => {
-  const raw = localStorage.getItem(VARIANT_STORE_KEY);
+  const raw = localStorage.getItem(FONT_VARIANTS_KEY);
   if (!raw) {
     return null;
   }
   try {
-    const store = JSON.parse(raw) as VariantStore;
+    const store = JSON.parse(raw) as FontVariantStore;
     return store[familyName] ?? null;
   } catch {
     return null;
   }
 };
 
+export const getFontVariantStore = (): FontVariantStore => {
+  const raw = localStorage.getItem(FONT_VARIANTS_KEY);
+  if (!raw) {
+    return {};
+  }
+  try {
+    const store = JSON.parse(raw) as unknown;
+    return typeof store === "object" && store !== null && !Array.isArray(store)
+      ? (store as FontVariantStore)
+      : {};
+  } catch {
+    return {};
+  }
+};
+
+export const isFontUrl = (value: unknown): boolean => {
+  try {
+    const url = new URL(String(value));
+    return (
+      url.origin === "https://fonts.gstatic.com" &&
+      /\.woff2?$/.test(url.pathname)
+    );
+  } catch {
+    return false;
+  }
+};
+
+// Variants from files (bundles, settings backups) only ever point at the
+// Google Fonts file host, like the ones the resolver picks.
+export const sanitizeFontVariants = (value: unknown): FontVariant[] =>
+  Array.isArray(value)
+    ? value
+        .filter(
+          (variant: unknown): variant is FontVariant =>
+            typeof variant === "object" &&
+            variant !== null &&
+            isFontUrl((variant as FontVariant).url) &&
+            typeof (variant as FontVariant).weight === "number" &&
+            ((variant as FontVariant).style === "normal" ||
+              (variant as FontVariant).style === "italic")
+        )
+        .slice(0, MAX_VARIANTS)
+        .map(({ url, weight, style }) => ({ url, weight, style }))
+    : [];
+
 const validateFontBuffer = (buffer: ArrayBuffer): void => {
   if (buffer.byteLength > MAX_FONT_BYTES) {
     throw new Error("Downloaded font failed validation and was blocked.");
@@ -205,7 +254,7 @@ const validateFontResponse = async (response: Response): Promise<ArrayBuffer> =>
 };
 
 const cacheFont = async (url: string, response: Response): Promise<void> => {
-  const cache = await caches.open(CACHE_NAME);
+  const cache = await caches.open(FONT_CACHE_NAME);
   await cache.put(url, response);
 };
 
@@ -231,7 +280,7 @@ export const loadFontFamilyFromCache = async (
   familyName: string,
   variants: FontVariant[]
 ): Promise<void> => {
-  const cache = await caches.open(CACHE_NAME);
+  const cache = await caches.open(FONT_CACHE_NAME);
   for (const variant of variants) {
     const cached = await cache.match(variant.url);
     if (!cached) {
@@ -248,11 +297,40 @@ export const loadFontFamilyFromCache = async (
   }
 };
 
+// Raw font bytes for embedding elsewhere (e.g. the vector PDF export).
+export const getFontBuffer = async (
+  variant: FontVariant
+): Promise<ArrayBuffer> => {
+  const cache = await caches.open(FONT_CACHE_NAME);
+  const cached = await cache.match(variant.url);
+  if (cached) {
+    const buffer = await cached.arrayBuffer();
+    validateFontBuffer(buffer);
+    return buffer;
+  }
+  const response = await fetchWithTimeout(variant.url, 10000);
+  return validateFontResponse(response);
+};
+
+// Puts font bytes from elsewhere (e.g. an imported bundle) into the font
+// cache under their original URL so the usual offline path finds them.
+export const storeFontBuffer = async (
+  url: string,
+  buffer: ArrayBuffer
+): Promise<void> => {
+  if (new URL(url).origin !== "https://fonts.gstatic.com") {
+    throw new Error("Downloaded font failed validation and was blocked.");
+  }
+  validateFontBuffer(buffer);
+  const type = url.endsWith(".woff2") ? "font/woff2" : "font/woff";
+  await cacheFont(url, new Response(buffer, { headers: { "content-type": type } }));
+};
+
 export const getFontCacheStatus = async (
   variants: FontVariant[]
 ): Promise<FontStatus> => {
   try {
-    const cache = await caches.open(CACHE_NAME);
+    const cache = await caches.open(FONT_CACHE_NAME);
     const matches = await Promise.all(
       variants.map((variant) => cache.match(variant.url))
     );
@@ -0,0 +1,310 @@
+export type StyledElementId =
+  | "h1"
+  | "h2"
+  | "h3"
+  | "h4"
+  | "h5"
+  | "h6"
+  | "paragraph"
+  | "blockquote"
+  | "list"
+  | "inlineCode"
+  | "codeBlock"
+  | "table"
+  | "link"
+  | "image"
+  | "rule";
+
+export type BorderStyle = "solid" | "dashed" | "dotted" | "double";
+export type BorderSides = "all" | "top" | "bottom" | "left";
+export type TextAlign = "left" | "center" | "right" | "justify";
+
+// Sizes and spacing are in CSS pixels; colours are #rrggbb. Unset fields
+// fall back to the theme and the global typography settings.
+export type ElementStyle = {
+  fontFamily?: string;
+  fontSize?: number;
+  fontWeight?: number;
+  color?: string;
+  marginTop?: number;
+  marginBottom?: number;
+  padding?: number;
+  borderWidth?: number;
+  borderStyle?: BorderStyle;
+  borderColor?: string;
+  borderSides?: BorderSides;
+  textAlign?: TextAlign;
+};
+
+export type ElementStyles = Partial<Record<StyledElementId, ElementStyle>>;
+
+// "text" covers font and colour, "box" spacing and borders, "align" the
+// horizontal alignment; the style panel only offers what applies.
+export type ElementStyleGroup = "text" | "box" | "align";
+
+export type StyledElement = {
+  id: StyledElementId;
+  label: string;
+  selectors: string[];
+  borderSelectors?: string[];
+  groups: ElementStyleGroup[];
+};
+
+export const STYLED_ELEMENTS: StyledElement[] = [
+  ...([1, 2, 3, 4, 5, 6] as const).map(
+    (level): StyledElement => ({
+      id: `h${level}`,
+      label: `Heading ${level}`,
+      selectors: [`h${level}`],
+      groups: ["text", "box", "align"],
+    })
+  ),
+  {
+    id: "paragraph",
+    label: "Paragraph",
+    selectors: ["p"],
+    groups: ["text", "box", "align"],
+  },
+  {
+    id: "blockquote",
+    label: "Blockquote",
+    selectors: ["blockquote"],
+    groups: ["text", "box", "align"],
+  },
+  {
+    id: "list",
+    label: "Lists",
+    selectors: ["ul", "ol"],
+    groups: ["text", "box", "align"],
+  },
+  {
+    id: "inlineCode",
+    label: "Inline code",
+    selectors: [":not(pre) > code"],
+    groups: ["text", "box"],
+  },
+  {
+    id: "codeBlock",
+    label: "Code block",
+    selectors: ["pre"],
+    groups: ["text", "box"],
+  },
+  {
+    id: "table",
+    label: "Table",
+    selectors: ["table"],
+    borderSelectors: ["th", "td"],
+    groups: ["text", "box", "align"],
+  },
+  { id: "link", label: "Link", selectors: ["a"], groups: ["text"] },
+  { id: "image", label: "Image", selectors: ["img"], groups: ["box", "align"] },
+  {
+    id: "rule",
+    label: "Horizontal rule",
+    selectors: ["hr"],
+    groups: ["box"],
+  },
+];
+
+export const BORDER_STYLES: BorderStyle[] = [
+  "solid",
+  "dashed",
+  "dotted",
+  "double",
+];
+export const BORDER_SIDES: BorderSides[] = ["all", "top", "bottom", "left"];
+export const TEXT_ALIGNS: TextAlign[] = ["left", "center", "right", "justify"];
+
+const STYLE_ELEMENT_ID = "element-styles";
+const PREVIEW_SELECTOR = ".preview-content";
+const COLOR_PATTERN = /^#[0-9a-f]{6}$/i;
+
+const readNumber = (value: unknown, min: number, max: number) =>
+  typeof value === "number" && Number.isFinite(value)
+    ? Math.min(max, Math.max(min, value))
+    : undefined;
+
+const readChoice = <T extends string>(value: unknown, choices: readonly T[]) =>
+  choices.find((choice) => choice === value);
+
+const readColor = (value: unknown) =>
+  typeof value === "string" && COLOR_PATTERN.test(value) ? value : undefined;
+
+// Family names end up inside a CSS string, so anything that could close it
+// or start a new declaration is dropped.
+const readFamily = (value: unknown) =>
+  typeof value === "string"
+    ? value.replace(/["'\\;{}<>]/g, "").trim() || undefined
+    : undefined;
+
+const cleanStyle = (value: unknown): ElementStyle | undefined => {
+  if (typeof value !== "object" || value === null) {
+    return undefined;
+  }
+  const raw = value as Record<string, unknown>;
+  const style: ElementStyle = {
+    fontFamily: readFamily(raw.fontFamily),
+    fontSize: readNumber(raw.fontSize, 6, 96),
+    fontWeight: readNumber(raw.fontWeight, 100, 900),
+    color: readColor(raw.color),
+    marginTop: readNumber(raw.marginTop, 0, 200),
+    marginBottom: readNumber(raw.marginBottom, 0, 200),
+    padding: readNumber(raw.padding, 0, 100),
+    borderWidth: readNumber(raw.borderWidth, 0, 20),
+    borderStyle: readChoice(raw.borderStyle, BORDER_STYLES),
+    borderColor: readColor(raw.borderColor),
+    borderSides: readChoice(raw.borderSides, BORDER_SIDES),
+    textAlign: readChoice(raw.textAlign, TEXT_ALIGNS),
+  };
+  (Object.keys(style) as Array<keyof ElementStyle>).forEach((key) => {
+    if (style[key] === undefined) {
+      delete style[key];
+    }
+  });
+  return Object.keys(style).length > 0 ? style : undefined;
+};
+
+// Saved documents and imported files are untrusted; only known elements and
+// in-range values survive, so the generated CSS cannot be abused.
+export const sanitizeElementStyles = (value: unknown): ElementStyles => {
+  const styles: ElementStyles = {};
+  if (typeof value !== "object" || value === null) {
+    return styles;
+  }
+  STYLED_ELEMENTS.forEach(({ id }) => {
+    const style = cleanStyle((value as Record<string, unknown>)[id]);
+    if (style) {
+      styles[id] = style;
+    }
+  });
+  return styles;
+};
+
+export const elementFontFamilies = (styles: ElementStyles): string[] =>
+  Array.from(
+    new Set(
+      Object.values(styles)
+        .map((style) => style?.fontFamily)
+        .filter(
+          (family): family is string => Boolean(family) && family !== "System"
+        )
+    )
+  );
+
+const borderProperty = (sides: BorderSides | undefined) =>
+  !sides || sides === "all" ? "border" : `border-${sides}`;
+
+const textDeclarations = (style: ElementStyle): string[] => {
+  const declarations: string[] = [];
+  if (style.fontFamily) {
+    declarations.push(
+      style.fontFamily === "System"
+        ? "font-family: system-ui, -apple-system, \"Segoe UI\", sans-serif"
+        : `font-family: "${style.fontFamily}", var(--preview-font-family)`
+    );
+  }
+  if (style.fontSize !== undefined) {
+    declarations.push(`font-size: ${style.fontSize}px`);
+  }
+  if (style.fontWeight !== undefined) {
+    declarations.push(`font-weight: ${style.fontWeight}`);
+  }
+  if (style.color) {
+    declarations.push(`color: ${style.color}`);
+  }
+  return declarations;
+};
+
+const boxDeclarations = (style: ElementStyle): string[] => {
+  const declarations: string[] = [];
+  if (style.marginTop !== undefined) {
+    declarations.push(`margin-top: ${style.marginTop}px`);
+  }
+  if (style.marginBottom !== undefined) {
+    declarations.push(`margin-bottom: ${style.marginBottom}px`);
+  }
+  if (style.padding !== undefined) {
+    declarations.push(`padding: ${style.padding}px`);
+  }
+  return declarations;
+};
+
+const borderDeclarations = (style: ElementStyle): string[] => {
+  if (
+    style.borderWidth === undefined &&
+    !style.borderStyle &&
+    !style.borderColor
+  ) {
+    return [];
+  }
+  const property = borderProperty(style.borderSides);
+  const reset = property === "border" ? [] : ["border: 0"];
+  return [
+    ...reset,
+    `${property}: ${style.borderWidth ?? 1}px ${style.borderStyle ?? "solid"} ${
+      style.borderColor ?? "var(--panel-border)"
+    }`,
+  ];
+};
+
+// Images are block-level in the preview, so they align through their side
+// margins rather than `text-align`.
+const alignDeclarations = (
+  element: StyledElement,
+  style: ElementStyle
+): string[] => {
+  if (!style.textAlign) {
+    return [];
+  }
+  if (element.id !== "image") {
+    return [`text-align: ${style.textAlign}`];
+  }
+  return [
+    `margin-left: ${style.textAlign === "left" ? "0" : "auto"}`,
+    `margin-right: ${style.textAlign === "right" ? "0" : "auto"}`,
+  ];
+};
+
+const rule = (selectors: string[], declarations: string[]) =>
+  declarations.length === 0
+    ? ""
+    : `${selectors
+        .map((selector) => `${PREVIEW_SELECTOR} ${selector}`)
+        .join(", ")} { ${declarations.join("; ")}; }`;
+
+export const buildElementStylesCss = (styles: ElementStyles): string =>
+  STYLED_ELEMENTS.flatMap((element) => {
+    const style = styles[element.id];
+    if (!style) {
+      return [];
+    }
+    const borders = borderDeclarations(style);
+    const ownBorders = element.borderSelectors ? [] : borders;
+    return [
+      rule(element.selectors, [
+        ...textDeclarations(style),
+        ...boxDeclarations(style),
+        ...ownBorders,
+        ...alignDeclarations(element, style),
+      ]),
+      element.borderSelectors ? rule(element.borderSelectors, borders) : "",
+    ];
+  })
+    .filter(Boolean)
+    .join("\n");
+
+// A stylesheet rather than inline styles: the preview is re-rendered on every
+// edit, and exports (including the HTML export's rule collection) pick the
+// rules up from `document.styleSheets` like the rest of the preview CSS.
+export const applyElementStyles = (styles: ElementStyles): void => {
+  let element = document.getElementById(STYLE_ELEMENT_ID);
+  if (!element) {
+    element = document.createElement("style");
+    element.id = STYLE_ELEMENT_ID;
+    document.head.appendChild(element);
+  }
+  const css = buildElementStylesCss(sanitizeElementStyles(styles));
+  if (element.textContent !== css) {
+    element.textContent = css;
+  }
+};
@@ -0,0 +1,134 @@
+import { PageOrientation, PageSizeId, resolvePageSize } from "./pageSizes";
+
+export type MarginSide = "top" | "right" | "bottom" | "left";
+
+// Millimetres in settings; page metrics hold the same shape in CSS pixels.
+export type PageMargins = Record<MarginSide, number>;
+
+export const MARGIN_SIDES: MarginSide[] = ["top", "right", "bottom", "left"];
+
+export const DEFAULT_MARGIN_MM = 20;
+export const MAX_MARGIN_MM = 100;
+export const MAX_GUTTER_MM = 50;
+// However large the margins, each page keeps at least this much text area.
+export const MIN_CONTENT_MM = 20;
+
+export const uniformMargins = (mm: number): PageMargins => ({
+  top: mm,
+  right: mm,
+  bottom: mm,
+  left: mm,
+});
+
+export const isUniformMargins = (margins: PageMargins): boolean =>
+  MARGIN_SIDES.every((side) => margins[side] === margins.top);
+
+export const sameMargins = (a: PageMargins, b: PageMargins): boolean =>
+  MARGIN_SIDES.every((side) => a[side] === b[side]);
+
+const readMm = (value: unknown, max: number, fallback: number) =>
+  typeof value === "number" && Number.isFinite(value)
+    ? Math.min(max, Math.max(0, value))
+    : fallback;
+
+// Older saved settings and bundles carry a single number for all four sides.
+export const sanitizeMargins = (
+  value: unknown,
+  fallback: PageMargins = uniformMargins(DEFAULT_MARGIN_MM)
+): PageMargins => {
+  if (typeof value === "number") {
+    return uniformMargins(readMm(value, MAX_MARGIN_MM, fallback.top));
+  }
+  if (typeof value !== "object" || value === null) {
+    return { ...fallback };
+  }
+  const raw = value as Record<string, unknown>;
+  return {
+    top: readMm(raw.top, MAX_MARGIN_MM, fallback.top),
+    right: readMm(raw.right, MAX_MARGIN_MM, fallback.right),
+    bottom: readMm(raw.bottom, MAX_MARGIN_MM, fallback.bottom),
+    left: readMm(raw.left, MAX_MARGIN_MM, fallback.left),
+  };
+};
+
+export const sanitizeGutter = (value: unknown): number =>
+  readMm(value, MAX_GUTTER_MM, 0);
+
+const roundMm = (value: number) => Math.round(value * 10) / 10;
+
+// Opposite sides shrink in proportion so an uneven layout keeps its shape.
+const fitPair = (
+  start: number,
+  end: number,
+  length: number
+): [number, number, boolean] => {
+  const available = Math.max(0, length - MIN_CONTENT_MM);
+  const total = start + end;
+  if (total <= available) {
+    return [start, end, false];
+  }
+  const ratio = total > 0 ? available / total : 0;
+  return [roundMm(start * ratio), roundMm(end * ratio), true];
+};
+
+export const fitMarginsToPage = (
+  margins: PageMargins,
+  widthMm: number,
+  heightMm: number
+): { margins: PageMargins; adjusted: boolean } => {
+  const [left, right, narrowed] = fitPair(margins.left, margins.right, widthMm);
+  const [top, bottom, shortened] = fitPair(
+    margins.top,
+    margins.bottom,
+    heightMm
+  );
+  return {
+    margins: { top, right, bottom, left },
+    adjusted: narrowed || shortened,
+  };
+};
+
+export type ResolvedPageMargins = {
+  // The first page, a right-hand page in duplex, with the gutter on its
+  // inside (left) edge.
+  margins: PageMargins;
+  mirrored: boolean;
+  // True when the chosen margins did not fit the page and were reduced.
+  adjusted: boolean;
+};
+
+export const resolvePageMargins = (options: {
+  margins: PageMargins;
+  mirrorMargins: boolean;
+  gutter: number;
+  pageSize: PageSizeId;
+  pageOrientation: PageOrientation;
+  customPageWidth: number;
+  customPageHeight: number;
+}): ResolvedPageMargins => {
+  const { widthMm, heightMm } = resolvePageSize(options);
+  const { margins, adjusted } = fitMarginsToPage(
+    { ...options.margins, left: options.margins.left + options.gutter },
+    widthMm,
+    heightMm
+  );
+  return { margins, mirrored: options.mirrorMargins, adjusted };
+};
+
+// In a duplex print every second page is a left-hand page, so its inside
+// edge, and with it the gutter, moves to the right.
+export const marginsForPage = (
+  margins: PageMargins,
+  mirrored: boolean,
+  pageIndex: number
+): PageMargins =>
+  mirrored && pageIndex % 2 === 1
+    ? { ...margins, left: margins.right, right: margins.left }
+    : margins;
+
+export const formatMargins = (margins: PageMargins): string => {
+  if (isUniformMargins(margins)) {
+    return margins.top === 0 ? "None" : `${margins.top} mm`;
+  }
+  return `${MARGIN_SIDES.map((side) => margins[side]).join("/")} mm`;
+};
@@ -1,7 +1,18 @@
+import {
+  fitMarginsToPage,
+  MARGIN_SIDES,
+  marginsForPage,
+  PageMargins,
+} from "./pageMargins";
+
 export type PageMetrics = {
+  pageWidthMm: number;
+  pageHeightMm: number;
   pageWidthPx: number;
   pageHeightPx: number;
-  marginPx: number;
+  // The first page's margins; use `pageMarginsPx` for any other page.
+  margins: PageMargins;
+  mirrorMargins: boolean;
   contentWidthPx: number;
   contentHeightPx: number;
   pxPerMm: number;
@@ -30,19 +41,42 @@ export const getPageMetrics = (): PageMetrics => {
   const pxPerMm = measurePxPerMm();
   const pageWidthMm = readMmVar("--page-width", 210);
   const pageHeightMm = readMmVar("--page-height", 297);
-  const marginMm = readMmVar("--page-margin", 20);
+  // The settings already fit the margins to the page; checking again here
+  // keeps a stale or hand-edited variable from leaving no room to paginate.
+  const { margins: marginsMm } = fitMarginsToPage(
+    {
+      top: readMmVar("--page-margin-top", 20),
+      right: readMmVar("--page-margin-right", 20),
+      bottom: readMmVar("--page-margin-bottom", 20),
+      left: readMmVar("--page-margin-left", 20),
+    },
+    pageWidthMm,
+    pageHeightMm
+  );
+  const margins = {} as PageMargins;
+  MARGIN_SIDES.forEach((side) => {
+    margins[side] = marginsMm[side] * pxPerMm;
+  });
   const pageWidthPx = pageWidthMm * pxPerMm;
   const pageHeightPx = pageHeightMm * pxPerMm;
-  const marginPx = marginMm * pxPerMm;
-  const contentWidthPx = pageWidthPx - marginPx * 2;
-  const contentHeightPx = pageHeightPx - marginPx * 2;
+  const contentWidthPx = pageWidthPx - margins.left - margins.right;
+  const contentHeightPx = pageHeightPx - margins.top - margins.bottom;
 
   return {
+    pageWidthMm,
+    pageHeightMm,
     pageWidthPx,
     pageHeightPx,
-    marginPx,
+    margins,
+    mirrorMargins: readMmVar("--page-mirror-margins", 0) === 1,
     contentWidthPx,
     contentHeightPx,
     pxPerMm,
   };
 };
+
+export const pageMarginsPx = (
+  metrics: PageMetrics,
+  pageIndex: number
+): PageMargins =>
+  marginsForPage(metrics.margins, metrics.mirrorMargins, pageIndex);
@@ -0,0 +1,72 @@
+export type PageSizeId = "a4" | "letter" | "legal" | "a5" | "a3" | "custom";
+export type PageOrientation = "portrait" | "landscape";
+
+export type PageSize = {
+  widthMm: number;
+  heightMm: number;
+};
+
+export const MIN_PAGE_MM = 50;
+export const MAX_PAGE_MM = 1000;
+
+// Portrait dimensions; landscape swaps them.
+export const pageSizePresets: Record<
+  Exclude<PageSizeId, "custom">,
+  PageSize & { label: string }
+> = {
+  a4: { label: "A4", widthMm: 210, heightMm: 297 },
+  letter: { label: "Letter", widthMm: 215.9, heightMm: 279.4 },
+  legal: { label: "Legal", widthMm: 215.9, heightMm: 355.6 },
+  a5: { label: "A5", widthMm: 148, heightMm: 210 },
+  a3: { label: "A3", widthMm: 297, heightMm: 420 },
+};
+
+// An explicit list, so inherited keys like "constructor" are not page sizes.
+const pageSizeIds: PageSizeId[] = [
+  "a4",
+  "letter",
+  "legal",
+  "a5",
+  "a3",
+  "custom",
+];
+
+export const isPageSizeId = (value: string): value is PageSizeId =>
+  pageSizeIds.some((id) => id === value);
+
+const clampMm = (value: number) =>
+  Math.min(MAX_PAGE_MM, Math.max(MIN_PAGE_MM, value));
+
+export const resolvePageSize = (options: {
+  pageSize: PageSizeId;
+  pageOrientation: PageOrientation;
+  customPageWidth: number;
+  customPageHeight: number;
+}): PageSize => {
+  const base =
+    options.pageSize === "custom"
+      ? {
+          widthMm: clampMm(options.customPageWidth),
+          heightMm: clampMm(options.customPageHeight),
+        }
+      : pageSizePresets[options.pageSize] ?? pageSizePresets.a4;
+  const shortSide = Math.min(base.widthMm, base.heightMm);
+  const longSide = Math.max(base.widthMm, base.heightMm);
+  return options.pageOrientation === "landscape"
+    ? { widthMm: longSide, heightMm: shortSide }
+    : { widthMm: shortSide, heightMm: longSide };
+};
+
+export const formatPageSize = (options: {
+  pageSize: PageSizeId;
+  pageOrientation: PageOrientation;
+  customPageWidth: number;
+  customPageHeight: number;
+}): string => {
+  if (options.pageSize === "custom") {
+    const { widthMm, heightMm } = resolvePageSize(options);
+    return `${Math.round(widthMm)}×${Math.round(heightMm)} mm`;
+  }
+  const label = pageSizePresets[options.pageSize]?.label ?? "A4";
+  return options.pageOrientation === "landscape" ? `${label} landscape` : label;
+};
@@ -0,0 +1,102 @@
+export type RunningBand = {
+  left: string;
+  center: string;
+  right: string;
+};
+
+export type PageBands = {
+  header: RunningBand;
+  footer: RunningBand;
+  skipFirstPage: boolean;
+  title: string;
+  fileName: string;
+  date: string;
+};
+
+export const BAND_TOKENS = ["{title}", "{page}", "{pages}", "{date}", "{file}"];
+
+const SLOTS: Array<keyof RunningBand> = ["left", "center", "right"];
+
+export const emptyBand = (): RunningBand => ({ left: "", center: "", right: "" });
+
+// Stored bands are user-editable JSON; missing or non-text slots are blank.
+export const sanitizeBand = (value: unknown): RunningBand | undefined => {
+  if (typeof value !== "object" || value === null) {
+    return undefined;
+  }
+  const raw = value as Record<string, unknown>;
+  const band = emptyBand();
+  SLOTS.forEach((slot) => {
+    const text = raw[slot];
+    if (typeof text === "string") {
+      band[slot] = text;
+    }
+  });
+  return band;
+};
+
+export const hasBandContent = (band: RunningBand): boolean =>
+  SLOTS.some((slot) => band[slot].trim().length > 0);
+
+export const bandsUseToken = (bands: RunningBand[], token: string): boolean =>
+  bands.some((band) => SLOTS.some((slot) => band[slot].includes(token)));
+
+export const formatBandText = (
+  template: string,
+  context: Pick<PageBands, "title" | "fileName" | "date"> & {
+    page: number;
+    pages: number;
+  }
+): string =>
+  template.replace(/\{(title|page|pages|date|file)\}/g, (_, token: string) => {
+    switch (token) {
+      case "title":
+        return context.title;
+      case "page":
+        return String(context.page);
+      case "pages":
+        return String(context.pages);
+      case "date":
+        return context.date;
+      default:
+        return context.fileName;
+    }
+  });
+
+export const fillBandNode = (
+  node: HTMLElement,
+  band: RunningBand,
+  bands: PageBands,
+  page: number,
+  pages: number
+): void => {
+  node.innerHTML = "";
+  SLOTS.forEach((slot) => {
+    const span = document.createElement("span");
+    span.className = `page-band-slot page-band-${slot}`;
+    span.textContent = formatBandText(band[slot], { ...bands, page, pages });
+    node.appendChild(span);
+  });
+};
+
+export const createPageBands = (
+  bands: PageBands,
+  page: number,
+  pages: number
+): HTMLElement[] => {
+  if (bands.skipFirstPage && page === 1) {
+    return [];
+  }
+  const nodes: HTMLElement[] = [];
+  (["header", "footer"] as const).forEach((kind) => {
+    const band = bands[kind];
+    if (!hasBandContent(band)) {
+      return;
+    }
+    const node = document.createElement("div");
+    node.className = `page-band page-${kind}`;
+    fillBandNode(node, band, bands, page, pages);
+    nodes.push(node);
+  });
+  return nodes;
+};
@@ -0,0 +1,280 @@
+export const USER_CSS_STYLE_ID = "user-css";
+const ELEMENT_STYLES_ID = "element-styles";
+const PREVIEW_SELECTOR = ".preview-content";
+
+export const MAX_USER_CSS_LENGTH = 200_000;
+
+export type ScopedCss = {
+  css: string;
+  // Human-readable reasons, one per kind of construct that was dropped.
+  removed: string[];
+};
+
+// Selectors that name the page itself are redirected to the preview root so
+// a print stylesheet's `body { … }` still applies.
+const ROOT_SELECTOR =
+  /^(?::root|html|body|\.page-shell|\.preview-content)(?![\w-])/i;
+
+const splitSelectors = (selectorText: string): string[] => {
+  const selectors: string[] = [];
+  let depth = 0;
+  let current = "";
+  for (const char of selectorText) {
+    if (char === "(" || char === "[") {
+      depth += 1;
+    } else if (char === ")" || char === "]") {
+      depth -= 1;
+    }
+    if (char === "," && depth === 0) {
+      selectors.push(current.trim());
+      current = "";
+    } else {
+      current += char;
+    }
+  }
+  selectors.push(current.trim());
+  return selectors.filter(Boolean);
+};
+
+// Null when the selector could only reach outside the preview, such as a
+// sibling of the page itself.
+const scopeSelector = (selector: string): string | null => {
+  let rest = selector;
+  // `html body .x` collapses to the preview root as well.
+  while (ROOT_SELECTOR.test(rest)) {
+    rest = rest.replace(ROOT_SELECTOR, "").trim();
+    if (rest.startsWith(">")) {
+      rest = rest.slice(1).trim();
+    }
+  }
+  if (!rest) {
+    return PREVIEW_SELECTOR;
+  }
+  if (/^[+~]/.test(rest)) {
+    return null;
+  }
+  return /^[:[.#]/.test(rest) && rest !== selector
+    ? `${PREVIEW_SELECTOR}${rest}`
+    : `${PREVIEW_SELECTOR} ${rest}`;
+};
+
+// Imported @font-face and @keyframes names get this prefix, and references
+// to them are rewritten, so a stylesheet cannot replace the app's own fonts
+// or animations.
+const USER_NAME_PREFIX = "user-css-";
+
+type ScopeContext = {
+  removed: Set<string>;
+  // Lower-cased font family -> prefixed family; font matching ignores case.
+  fontFamilies: Map<string, string>;
+  animations: Map<string, string>;
+};
+
+const unquote = (value: string) => value.trim().replace(/^(['"])(.*)\1$/, "$2");
+
+const quote = (value: string) => `"${value.replace(/["\\]/g, "\\$&")}"`;
+
+const collectNames = (rules: CSSRuleList, context: ScopeContext) => {
+  Array.from(rules).forEach((rule) => {
+    if (rule instanceof CSSFontFaceRule) {
+      const family = unquote(rule.style.getPropertyValue("font-family"));
+      if (family) {
+        context.fontFamilies.set(
+          family.toLowerCase(),
+          `${USER_NAME_PREFIX}${family}`
+        );
+      }
+    } else if (rule instanceof CSSKeyframesRule) {
+      context.animations.set(rule.name, `${USER_NAME_PREFIX}${rule.name}`);
+    } else if (
+      rule instanceof CSSMediaRule ||
+      rule instanceof CSSSupportsRule
+    ) {
+      collectNames(rule.cssRules, context);
+    }
+  });
+};
+
+// Both properties are comma-separated lists once the browser has expanded
+// the `font` and `animation` shorthands.
+const renameReferences = (
+  name: string,
+  value: string,
+  context: ScopeContext
+): string => {
+  if (name === "font-family") {
+    return value
+      .split(",")
+      .map((family) => {
+        const renamed = context.fontFamilies.get(
+          unquote(family).toLowerCase()
+        );
+        return renamed ? quote(renamed) : family.trim();
+      })
+      .join(", ");
+  }
+  if (name === "animation-name") {
+    return value
+      .split(",")
+      .map((animation) => {
+        const trimmed = animation.trim();
+        return context.animations.get(trimmed) ?? trimmed;
+      })
+      .join(", ");
+  }
+  return value;
+};
+
+const URL_PATTERN = /url\(\s*(['"]?)(.*?)\1\s*\)/gi;
+
+// Only inline data: URLs survive; anything else would fetch from the network
+// while the preview renders or the page is exported.
+const hasExternalUrl = (value: string) =>
+  Array.from(value.matchAll(URL_PATTERN)).some(
+    ([, , url]) => !url.trim().toLowerCase().startsWith("data:")
+  ) || /image-set\(/i.test(value);
+
+const isScriptLike = (name: string, value: string) =>
+  /expression\s*\(|javascript:|vbscript:/i.test(value) ||
+  name === "behavior" ||
+  name === "-moz-binding";
+
+const cleanDeclarations = (
+  style: CSSStyleDeclaration,
+  context: ScopeContext
+): string => {
+  const { removed } = context;
+  const declarations: string[] = [];
+  for (let index = 0; index < style.length; index += 1) {
+    const name = style.item(index);
+    const value = renameReferences(
+      name,
+      style.getPropertyValue(name),
+      context
+    );
+    if (hasExternalUrl(value)) {
+      removed.add("external url() references");
+      continue;
+    }
+    if (isScriptLike(name, value)) {
+      removed.add("script-like values");
+      continue;
+    }
+    if (name === "position" && value.trim() === "fixed") {
+      removed.add("position: fixed");
+      continue;
+    }
+    const priority = style.getPropertyPriority(name);
+    declarations.push(`${name}: ${value}${priority ? ` !${priority}` : ""};`);
+  }
+  return declarations.join(" ");
+};
+
+const scopeRules = (rules: CSSRuleList, context: ScopeContext): string[] =>
+  Array.from(rules).flatMap((rule): string[] => {
+    const { removed } = context;
+    if (rule instanceof CSSStyleRule) {
+      const body = cleanDeclarations(rule.style, context);
+      const selectors = splitSelectors(rule.selectorText)
+        .map(scopeSelector)
+        .filter((selector): selector is string => selector !== null);
+      if (selectors.length < splitSelectors(rule.selectorText).length) {
+        removed.add("selectors outside the preview");
+      }
+      return body && selectors.length > 0
+        ? [`${selectors.join(", ")} { ${body} }`]
+        : [];
+    }
+    if (rule instanceof CSSMediaRule || rule instanceof CSSSupportsRule) {
+      const inner = scopeRules(rule.cssRules, context);
+      const keyword = rule instanceof CSSMediaRule ? "@media" : "@supports";
+      return inner.length > 0
+        ? [`${keyword} ${rule.conditionText} {\n${inner.join("\n")}\n}`]
+        : [];
+    }
+    if (rule instanceof CSSFontFaceRule || rule instanceof CSSKeyframesRule) {
+      if (hasExternalUrl(rule.cssText)) {
+        removed.add("external url() references");
+        return [];
+      }
+      if (rule instanceof CSSKeyframesRule) {
+        const name = context.animations.get(rule.name) ?? rule.name;
+        const frames = Array.from(rule.cssRules)
+          .map((frame) => frame.cssText)
+          .join(" ");
+        return [`@keyframes ${name} { ${frames} }`];
+      }
+      const descriptors = Array.from(
+        { length: rule.style.length },
+        (_, index) => rule.style.item(index)
+      ).map((name) => {
+        const value = rule.style.getPropertyValue(name);
+        return name === "font-family"
+          ? `${name}: ${renameReferences(name, value, context)};`
+          : `${name}: ${value};`;
+      });
+      return [`@font-face { ${descriptors.join(" ")} }`];
+    }
+    if (rule instanceof CSSImportRule) {
+      removed.add("@import rules");
+      return [];
+    }
+    if (rule instanceof CSSPageRule) {
+      removed.add("@page rules (use the page size and margin controls)");
+      return [];
+    }
+    removed.add("unsupported @-rules");
+    return [];
+  });
+
+// The browser's own parser does the tokenising, so comments, escapes and
+// malformed input are handled the same way the preview would see them.
+export const scopeUserCss = (source: string): ScopedCss => {
+  if (!source.trim()) {
+    return { css: "", removed: [] };
+  }
+  if (source.length > MAX_USER_CSS_LENGTH) {
+    throw new Error("Stylesheet is too large (200 KB at most).");
+  }
+  const removed = new Set<string>();
+  if (/@import\b/i.test(source)) {
+    removed.add("@import rules");
+  }
+  const sheet = new CSSStyleSheet();
+  sheet.replaceSync(source.replace(/@import\b[^;]*;?/gi, ""));
+  const context: ScopeContext = {
+    removed,
+    fontFamilies: new Map(),
+    animations: new Map(),
+  };
+  collectNames(sheet.cssRules, context);
+  return {
+    css: scopeRules(sheet.cssRules, context).join("\n"),
+    removed: Array.from(removed),
+  };
+};
+
+let appliedSource = "";
+
+// Inserted ahead of the element styles so per-element tweaks made in the app
+// still win over an imported house stylesheet of equal specificity.
+export const applyUserCss = (source: string): void => {
+  let element = document.getElementById(USER_CSS_STYLE_ID);
+  if (!element) {
+    element = document.createElement("style");
+    element.id = USER_CSS_STYLE_ID;
+    document.head.insertBefore(
+      element,
+      document.getElementById(ELEMENT_STYLES_ID)
+    );
+  }
+  if (source === appliedSource) {
+    return;
+  }
+  appliedSource = source;
+  try {
+    element.textContent = scopeUserCss(source).css;
+  } catch {
+    element.textContent = "";
+  }
+};
@@ -0,0 +1,168 @@
+import type { PluginSimple } from "markdown-it";
+import type { MermaidConfig } from "mermaid";
+import {
+  BuiltInThemeId,
+  CustomTheme,
+  ThemeId,
+  isBuiltInThemeId,
+  resolveTheme,
+} from "../state/themes";
+
+const DIAGRAM_CLASS = "diagram";
+const MAX_CACHED_DIAGRAMS = 50;
+
+const diagramThemes: Record<BuiltInThemeId, MermaidConfig> = {
+  light: { theme: "default" },
+  dark: { theme: "dark" },
+  paper: {
+    theme: "base",
+    themeVariables: {
+      background: "#fffdf8",
+      primaryColor: "#f3eee3",
+      primaryTextColor: "#3f3a30",
+      primaryBorderColor: "#a59c8b",
+      lineColor: "#6b6459",
+      secondaryColor: "#e7e2d9",
+      tertiaryColor: "#fffdf8",
+    },
+  },
+  terminal: {
+    theme: "base",
+    themeVariables: {
+      background: "#0f1412",
+      primaryColor: "#0b0f0c",
+      primaryTextColor: "#c7f9cc",
+      primaryBorderColor: "#84cc9b",
+      lineColor: "#84cc9b",
+      secondaryColor: "#1f2a25",
+      tertiaryColor: "#0f1412",
+      fontFamily: "ui-monospace, SFMono-Regular, Menlo, monospace",
+    },
+  },
+};
+
+// Custom themes map their palette onto Mermaid's "base" theme the same way
+// the paper preset does.
+const diagramConfig = (
+  theme: ThemeId,
+  customThemes: CustomTheme[]
+): MermaidConfig => {
+  if (isBuiltInThemeId(theme)) {
+    return diagramThemes[theme];
+  }
+  const { base, variables } = resolveTheme(theme, customThemes);
+  return {
+    theme: "base",
+    themeVariables: {
+      darkMode: base === "dark" || base === "terminal",
+      background: variables["--panel-bg"],
+      primaryColor: variables["--app-bg"],
+      primaryTextColor: variables["--text-primary"],
+      primaryBorderColor: variables["--text-muted"],
+      lineColor: variables["--text-muted"],
+      secondaryColor: variables["--panel-border"],
+      tertiaryColor: variables["--panel-bg"],
+    },
+  };
+};
+
+// Fenced ```mermaid blocks become placeholders that keep the source as a
+// code block, so the rich editor still round-trips them and the text stays
+// readable until (or if) the diagram renders.
+export const diagramPlugin: PluginSimple = (md) => {
+  const fallback = md.renderer.rules.fence;
+  md.renderer.rules.fence = (tokens, idx, options, env, self) => {
+    const token = tokens[idx];
+    const language = token.info.trim().split(/\s+/)[0]?.toLowerCase();
+    if (language !== "mermaid") {
+      return fallback
+        ? fallback(tokens, idx, options, env, self)
+        : self.renderToken(tokens, idx, options);
+    }
+    return `<div class="${DIAGRAM_CLASS}" data-diagram="mermaid"><pre class="diagram-source"><code class="language-mermaid">${md.utils.escapeHtml(
+      token.content
+    )}</code></pre></div>\n`;
+  };
+};
+
+const cache = new Map<string, string>();
+let pending: Promise<void> = Promise.resolve();
+let counter = 0;
+
+const showError = (block: HTMLElement, error: unknown) => {
+  const message =
+    error instanceof Error ? error.message.split("\n")[0] : "Invalid diagram.";
+  const box = document.createElement("div");
+  box.className = "diagram-error";
+  box.textContent = `Diagram error: ${message}`;
+  block.prepend(box);
+};
+
+// Mermaid is loaded on first use; it ships inside the app bundle and the
+// service worker precaches its chunks, so this works offline from the start.
+export const renderDiagrams = (
+  container: HTMLElement,
+  theme: ThemeId,
+  customThemes: CustomTheme[] = []
+): Promise<void> => {
+  const blocks = Array.from(
+    container.querySelectorAll<HTMLElement>(
+      `.${DIAGRAM_CLASS}:not([data-rendered])`
+    )
+  );
+  if (blocks.length === 0) {
+    return pending;
+  }
+  const config = diagramConfig(theme, customThemes);
+  const configKey = JSON.stringify(config);
+  pending = pending.then(async () => {
+    let mermaid: (typeof import("mermaid"))["default"];
+    try {
+      mermaid = (await import("mermaid")).default;
+    } catch (error) {
+      blocks.forEach((block) => {
+        block.dataset.rendered = "error";
+        showError(block, error);
+      });
+      return;
+    }
+    mermaid.initialize({
+      startOnLoad: false,
+      securityLevel: "strict",
+      // SVG text labels instead of <foreignObject>, which would taint the
+      // canvas the vector PDF export rasterises diagrams through.
+      htmlLabels: false,
+      flowchart: { htmlLabels: false },
+      ...config,
+    });
+    for (const block of blocks) {
+      const source = block.querySelector("code")?.textContent ?? "";
+      const key = `${configKey}\n${source}`;
+      block.dataset.rendered = "true";
+      try {
+        let svg = cache.get(key);
+        if (!svg) {
+          counter += 1;
+          const id = `diagram-${counter}`;
+          try {
+            svg = (await mermaid.render(id, source)).svg;
+          } finally {
+            document.getElementById(`d${id}`)?.remove();
+          }
+          cache.set(key, svg);
+          if (cache.size > MAX_CACHED_DIAGRAMS) {
+            cache.delete(cache.keys().next().value as string);
+          }
+        }
+        block.innerHTML = svg;
+      } catch (error) {
+        block.dataset.rendered = "error";
+        showError(block, error);
+      }
+    }
+  });
+  return pending;
+};
+
+// Exporters clone the preview, so they wait for in-flight diagrams first.
+export const waitForDiagrams = (): Promise<void> => pending;
@@ -0,0 +1,86 @@
+import type MarkdownIt from "markdown-it";
+import abbr from "markdown-it-abbr";
+import container from "markdown-it-container";
+import deflist from "markdown-it-deflist";
+import { full as emoji } from "markdown-it-emoji";
+import footnote from "markdown-it-footnote";
+import mark from "markdown-it-mark";
+import sub from "markdown-it-sub";
+import sup from "markdown-it-sup";
+
+export type MarkdownExtensionId =
+  | "footnote"
+  | "deflist"
+  | "abbr"
+  | "sub"
+  | "sup"
+  | "mark"
+  | "emoji"
+  | "callouts";
+
+export const MARKDOWN_EXTENSIONS: Array<{
+  id: MarkdownExtensionId;
+  label: string;
+  example: string;
+}> = [
+  { id: "footnote", label: "Footnotes", example: "text[^1] / [^1]: note" },
+  { id: "deflist", label: "Definition lists", example: "Term / : definition" },
+  { id: "abbr", label: "Abbreviations", example: "*[HTML]: Hyper Text" },
+  { id: "sub", label: "Subscript", example: "H~2~O" },
+  { id: "sup", label: "Superscript", example: "x^2^" },
+  { id: "mark", label: "Highlight", example: "==marked==" },
+  { id: "emoji", label: "Emoji shortcodes", example: ":tada:" },
+  { id: "callouts", label: "Callouts", example: "::: note … :::" },
+];
+
+export const allMarkdownExtensions = MARKDOWN_EXTENSIONS.map(({ id }) => id);
+
+export const isMarkdownExtensionId = (
+  value: unknown
+): value is MarkdownExtensionId =>
+  allMarkdownExtensions.includes(value as MarkdownExtensionId);
+
+const CALLOUT_KINDS = ["note", "tip", "important", "warning", "caution"];
+
+// `::: warning Custom title` renders as a titled box; the kind only ever
+// becomes a class name, so arbitrary info strings cannot inject markup.
+const calloutsPlugin = (md: MarkdownIt) => {
+  CALLOUT_KINDS.forEach((kind) => {
+    const label = kind[0].toUpperCase() + kind.slice(1);
+    container(md, kind, {
+      render: (tokens, idx) => {
+        const token = tokens[idx];
+        if (token.nesting !== 1) {
+          return "</div>\n";
+        }
+        const title = token.info.trim().slice(kind.length).trim() || label;
+        return `<div class="callout callout-${kind}"><p class="callout-title">${md.utils.escapeHtml(
+          title
+        )}</p>\n`;
+      },
+    });
+  });
+};
+
+const plugins: Record<MarkdownExtensionId, (md: MarkdownIt) => void> = {
+  footnote: (md) => md.use(footnote),
+  deflist: (md) => md.use(deflist),
+  abbr: (md) => md.use(abbr),
+  sub: (md) => md.use(sub),
+  sup: (md) => md.use(sup),
+  mark: (md) => md.use(mark),
+  emoji: (md) => md.use(emoji),
+  callouts: calloutsPlugin,
+};
+
+export const useMarkdownExtensions = (
+  md: MarkdownIt,
+  extensions: readonly MarkdownExtensionId[]
+): MarkdownIt => {
+  MARKDOWN_EXTENSIONS.forEach(({ id }) => {
+    if (extensions.includes(id)) {
+      plugins[id](md);
+    }
+  });
+  return md;
+};
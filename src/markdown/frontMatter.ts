@@ -0,0 +1,213 @@
+import { parse } from "yaml";
+import { isFontFamilyName } from "../fonts/fonts";
+import { MAX_MARGIN_MM, uniformMargins } from "../layout/pageMargins";
+import { isPageSizeId } from "../layout/pageSizes";
+import {
+  AppSettings,
+  NumericSettingKey,
+  settingRanges,
+  validateSettingsPatch,
+} from "../state/settings";
+import { builtInThemeIds, isThemeId } from "../state/themes";
+import { isHeadingLevel } from "./toc";
+
+// A blank line straight after the opening fence means a horizontal rule,
+// which is how the editor writes `---` at the top of a document.
+const FRONT_MATTER_PATTERN =
+  /^---[ \t]*\n(?![ \t]*\n)([\s\S]*?)\n(?:---|\.\.\.)[ \t]*(?:\n[ \t]*)*(?:\n|$)/;
+export type FrontMatter = {
+  title?: string;
+  author?: string;
+  date?: string;
+  fileName?: string;
+  settings: Partial<AppSettings>;
+};
+
+export type ParsedFrontMatter = {
+  values: FrontMatter;
+  errors: string[];
+};
+
+// The raw block (delimiters and trailing blank lines included) is kept so
+// the document can be reassembled byte for byte around an edited body.
+export const splitFrontMatter = (
+  markdown: string
+): { frontMatter: string; body: string } => {
+  const match = markdown.match(FRONT_MATTER_PATTERN);
+  if (!match) {
+    return { frontMatter: "", body: markdown };
+  }
+  return {
+    frontMatter: match[0],
+    body: markdown.slice(match[0].length),
+  };
+};
+
+export const frontMatterSource = (frontMatter: string): string =>
+  frontMatter.match(FRONT_MATTER_PATTERN)?.[1] ?? "";
+
+export const wrapFrontMatter = (source: string): string =>
+  source.trim() ? `---\n${source.trim()}\n---\n\n` : "";
+
+const normalizeKey = (key: string) => key.toLowerCase().replace(/[-_\s]/g, "");
+
+const readNumber = (
+  value: unknown,
+  key: string,
+  min: number,
+  max: number,
+  errors: string[]
+): number | undefined => {
+  const parsed = typeof value === "string" ? Number.parseFloat(value) : value;
+  if (typeof parsed !== "number" || !Number.isFinite(parsed)) {
+    errors.push(`${key} must be a number.`);
+    return undefined;
+  }
+  if (parsed < min || parsed > max) {
+    errors.push(`${key} must be between ${min} and ${max}.`);
+    return undefined;
+  }
+  return parsed;
+};
+
+// The same limits as the toolbar, so front-matter cannot set a value the
+// settings controls could not show.
+const readRange = (
+  value: unknown,
+  key: string,
+  settingKey: NumericSettingKey,
+  errors: string[]
+) =>
+  readNumber(
+    value,
+    key,
+    settingRanges[settingKey].min,
+    settingRanges[settingKey].max,
+    errors
+  );
+
+const readText = (value: unknown): string | undefined => {
+  if (value instanceof Date) {
+    return value.toISOString().slice(0, 10);
+  }
+  if (typeof value === "string" || typeof value === "number") {
+    return String(value).trim() || undefined;
+  }
+  return undefined;
+};
+
+export const parseFrontMatter = (frontMatter: string): ParsedFrontMatter => {
+  const values: FrontMatter = { settings: {} };
+  const errors: string[] = [];
+  // Collected here, then checked by the settings validators below.
+  const candidates: Partial<AppSettings> = {};
+  if (!frontMatter) {
+    return { values, errors };
+  }
+  let data: unknown;
+  try {
+    data = parse(frontMatterSource(frontMatter));
+  } catch (error) {
+    const message = error instanceof Error ? error.message.split("\n")[0] : "";
+    return { values, errors: [`Front-matter could not be parsed. ${message}`] };
+  }
+  if (data === null || data === undefined) {
+    return { values, errors };
+  }
+  if (typeof data !== "object" || Array.isArray(data)) {
+    return { values, errors: ["Front-matter must be a list of key: value pairs."] };
+  }
+
+  Object.entries(data as Record<string, unknown>).forEach(([key, value]) => {
+    switch (normalizeKey(key)) {
+      case "title":
+        values.title = readText(value);
+        break;
+      case "author":
+        values.author = readText(value);
+        break;
+      case "date":
+        values.date = readText(value);
+        break;
+      case "filename":
+      case "output":
+        values.fileName = readText(value);
+        break;
+      case "theme": {
+        const theme = readText(value)?.toLowerCase();
+        // A custom theme this browser does not have is reported by the
+        // settings validators below.
+        if (isThemeId(theme)) {
+          candidates.theme = theme;
+        } else {
+          errors.push(
+            `theme must be one of ${builtInThemeIds.join(", ")} or a custom theme id.`
+          );
+        }
+        break;
+      }
+      case "font":
+      case "fontfamily": {
+        const family = readText(value);
+        if (isFontFamilyName(family)) {
+          candidates.fontFamily = family;
+        } else if (family) {
+          errors.push(
+            `${key} must be a font name of letters, digits, spaces, ` +
+              "hyphens and apostrophes."
+          );
+        }
+        break;
+      }
+      case "fontsize":
+        candidates.fontSize = readRange(value, key, "fontSize", errors);
+        break;
+      case "lineheight":
+        candidates.lineHeight = readRange(value, key, "lineHeight", errors);
+        break;
+      case "pagesize":
+      case "page": {
+        const size = readText(value)?.toLowerCase();
+        if (size && isPageSizeId(size) && size !== "custom") {
+          candidates.pageSize = size;
+        } else {
+          errors.push(`${key} must be one of a4, letter, legal, a5, a3.`);
+        }
+        break;
+      }
+      case "orientation": {
+        const orientation = readText(value)?.toLowerCase();
+        if (orientation === "portrait" || orientation === "landscape") {
+          candidates.pageOrientation = orientation;
+        } else {
+          errors.push(`${key} must be portrait or landscape.`);
+        }
+        break;
+      }
+      case "tocdepth": {
+        const depth = readNumber(value, key, 1, 6, errors);
+        if (isHeadingLevel(depth)) {
+          candidates.tocDepth = depth;
+        } else if (depth !== undefined) {
+          errors.push(`${key} must be a whole number from 1 to 6.`);
+        }
+        break;
+      }
+      case "margin":
+      case "margins": {
+        const margin = readNumber(value, key, 0, MAX_MARGIN_MM, errors);
+        if (margin !== undefined) {
+          candidates.margins = uniformMargins(margin);
+        }
+        break;
+      }
+      default:
+        // Unknown keys are left for other tools that read the same file.
+        break;
+    }
+  });
+
+  const { settings, issues } = validateSettingsPatch(candidates);
+  values.settings = settings;
+  return { values, errors: [...errors, ...issues.map((issue) => `${issue}.`)] };
+};
@@ -0,0 +1,34 @@
+import type { PluginSimple } from "markdown-it";
+import type StateCore from "markdown-it/lib/rules_core/state_core.mjs";
+
+// GitHub-style slugs so `[see below](#some-heading)` links work in the
+// preview and can be resolved to pages when exporting.
+export const slugify = (text: string): string =>
+  text
+    .trim()
+    .toLowerCase()
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .replace(/[^\p{L}\p{N}\s_-]/gu, "")
+    .replace(/\s+/g, "-");
+
+const headingIdsRule = (state: StateCore) => {
+  const used = new Map<string, number>();
+  state.tokens.forEach((token, index) => {
+    if (token.type !== "heading_open" || token.attrGet("id")) {
+      return;
+    }
+    const text = (state.tokens[index + 1]?.children ?? [])
+      .filter((child) => child.type === "text" || child.type === "code_inline")
+      .map((child) => child.content)
+      .join("");
+    const base = slugify(text) || "section";
+    const seen = used.get(base) ?? 0;
+    used.set(base, seen + 1);
+    token.attrSet("id", seen ? `${base}-${seen}` : base);
+  });
+};
+
+export const headingIdsPlugin: PluginSimple = (md) => {
+  md.core.ruler.push("heading_ids", headingIdsRule);
+};
@@ -0,0 +1,136 @@
+import hljs from "highlight.js/lib/core";
+import bash from "highlight.js/lib/languages/bash";
+import c from "highlight.js/lib/languages/c";
+import cpp from "highlight.js/lib/languages/cpp";
+import csharp from "highlight.js/lib/languages/csharp";
+import css from "highlight.js/lib/languages/css";
+import diff from "highlight.js/lib/languages/diff";
+import dockerfile from "highlight.js/lib/languages/dockerfile";
+import go from "highlight.js/lib/languages/go";
+import ini from "highlight.js/lib/languages/ini";
+import java from "highlight.js/lib/languages/java";
+import javascript from "highlight.js/lib/languages/javascript";
+import json from "highlight.js/lib/languages/json";
+import kotlin from "highlight.js/lib/languages/kotlin";
+import markdown from "highlight.js/lib/languages/markdown";
+import php from "highlight.js/lib/languages/php";
+import plaintext from "highlight.js/lib/languages/plaintext";
+import powershell from "highlight.js/lib/languages/powershell";
+import python from "highlight.js/lib/languages/python";
+import ruby from "highlight.js/lib/languages/ruby";
+import rust from "highlight.js/lib/languages/rust";
+import scss from "highlight.js/lib/languages/scss";
+import shell from "highlight.js/lib/languages/shell";
+import sql from "highlight.js/lib/languages/sql";
+import swift from "highlight.js/lib/languages/swift";
+import typescript from "highlight.js/lib/languages/typescript";
+import xml from "highlight.js/lib/languages/xml";
+import yaml from "highlight.js/lib/languages/yaml";
+
+// Only bundled grammars are registered, so highlighting works offline and
+// unknown languages fall back to plain escaped text.
+const languages = {
+  bash,
+  c,
+  cpp,
+  csharp,
+  css,
+  diff,
+  dockerfile,
+  go,
+  ini,
+  java,
+  javascript,
+  json,
+  kotlin,
+  markdown,
+  php,
+  plaintext,
+  powershell,
+  python,
+  ruby,
+  rust,
+  scss,
+  shell,
+  sql,
+  swift,
+  typescript,
+  xml,
+  yaml,
+};
+
+Object.entries(languages).forEach(([name, language]) => {
+  hljs.registerLanguage(name, language);
+});
+
+const LINE_NUMBERS_CLASS = "has-line-numbers";
+
+// Used as markdown-it's `highlight` option; an empty string tells markdown-it
+// to escape the code itself.
+export const highlightCode = (code: string, info: string): string => {
+  const language = info.trim().split(/\s+/)[0]?.toLowerCase();
+  if (!language || !hljs.getLanguage(language)) {
+    return "";
+  }
+  try {
+    return hljs.highlight(code, { language, ignoreIllegals: true }).value;
+  } catch {
+    return "";
+  }
+};
+
+// Splits highlighted markup into lines, closing and reopening any spans that
+// cross a line break so every line is a balanced fragment.
+const splitHighlightedLines = (html: string): string[] => {
+  const lines: string[] = [];
+  const open: string[] = [];
+  let line = "";
+  html.split(/(<span[^>]*>|<\/span>|\n)/).forEach((token) => {
+    if (token === "\n") {
+      lines.push(line + "</span>".repeat(open.length));
+      line = open.join("");
+    } else if (token.startsWith("<span")) {
+      open.push(token);
+      line += token;
+    } else if (token === "</span>") {
+      open.pop();
+      line += token;
+    } else {
+      line += token;
+    }
+  });
+  lines.push(line);
+  if (lines.length > 1 && lines[lines.length - 1] === "") {
+    lines.pop();
+  }
+  return lines;
+};
+
+// Line numbers are real text rather than CSS counters so the vector PDF
+// export, which only draws DOM text, shows them too.
+export const applyCodeLineNumbers = (
+  container: HTMLElement,
+  enabled: boolean
+): void => {
+  if (!enabled) {
+    return;
+  }
+  // Diagram placeholders keep their source in a <pre>; leave it untouched.
+  container
+    .querySelectorAll<HTMLElement>("pre:not(.diagram-source) > code")
+    .forEach((code) => {
+      const pre = code.parentElement;
+      if (!pre || pre.classList.contains(LINE_NUMBERS_CLASS)) {
+        return;
+      }
+      code.innerHTML = splitHighlightedLines(code.innerHTML)
+        .map(
+          (line, index) =>
+            `<span class="code-line"><span class="code-line-number" aria-hidden="true">${
+              index + 1
+            }</span><span class="code-line-text">${line}</span></span>`
+        )
+        .join("");
+      pre.classList.add(LINE_NUMBERS_CLASS);
+    });
+};
@@ -0,0 +1,143 @@
+import katex from "katex";
+import type { PluginSimple } from "markdown-it";
+import type StateBlock from "markdown-it/lib/rules_block/state_block.mjs";
+import type StateInline from "markdown-it/lib/rules_inline/state_inline.mjs";
+
+export const MATH_INLINE_CLASS = "math-inline";
+export const MATH_BLOCK_CLASS = "math-block";
+
+const DOLLAR = 0x24;
+const BACKSLASH = 0x5c;
+
+// One output at a time: the preview uses HTML only, since a hidden MathML
+// copy would be picked up as duplicate text by the vector PDF export. Errors
+// render inline in red instead of throwing, so one bad formula never blanks
+// the preview.
+export const renderMath = (
+  latex: string,
+  displayMode: boolean,
+  output: "html" | "mathml" = "html"
+): string =>
+  katex.renderToString(latex, {
+    displayMode,
+    output,
+    throwOnError: false,
+    strict: "ignore",
+  });
+
+const isSpace = (code: number) =>
+  code === 0x20 || code === 0x09 || code === 0x0a;
+
+// Pandoc rules: no space just inside the dollars and no digit right after
+// the closing one, so "costs $5 and $10" stays plain text.
+const mathInline = (state: StateInline, silent: boolean): boolean => {
+  const start = state.pos;
+  const src = state.src;
+  if (
+    src.charCodeAt(start) !== DOLLAR ||
+    src.charCodeAt(start + 1) === DOLLAR ||
+    isSpace(src.charCodeAt(start + 1))
+  ) {
+    return false;
+  }
+  let end = src.indexOf("$", start + 1);
+  while (end !== -1 && src.charCodeAt(end - 1) === BACKSLASH) {
+    end = src.indexOf("$", end + 1);
+  }
+  if (
+    end === -1 ||
+    end > state.posMax ||
+    isSpace(src.charCodeAt(end - 1)) ||
+    /\d/.test(src.charAt(end + 1))
+  ) {
+    return false;
+  }
+  if (!silent) {
+    const token = state.push("math_inline", "math", 0);
+    token.markup = "$";
+    token.content = src.slice(start + 1, end);
+  }
+  state.pos = end + 1;
+  return true;
+};
+
+const mathBlock = (
+  state: StateBlock,
+  startLine: number,
+  endLine: number,
+  silent: boolean
+): boolean => {
+  const start = state.bMarks[startLine] + state.tShift[startLine];
+  if (
+    state.sCount[startLine] - state.blkIndent >= 4 ||
+    state.src.slice(start, start + 2) !== "$$"
+  ) {
+    return false;
+  }
+  const firstLine = state.src.slice(start + 2, state.eMarks[startLine]).trim();
+  let content: string;
+  let lastLine = startLine;
+
+  if (firstLine.length >= 2 && firstLine.endsWith("$$")) {
+    content = firstLine.slice(0, -2);
+  } else {
+    let closed = false;
+    while (!closed) {
+      lastLine += 1;
+      if (lastLine >= endLine) {
+        return false;
+      }
+      const line = state.src
+        .slice(
+          state.bMarks[lastLine] + state.tShift[lastLine],
+          state.eMarks[lastLine]
+        )
+        .trim();
+      closed = line.endsWith("$$");
+    }
+    const closing = state.src
+      .slice(
+        state.bMarks[lastLine] + state.tShift[lastLine],
+        state.eMarks[lastLine]
+      )
+      .trim()
+      .slice(0, -2);
+    content = [
+      firstLine,
+      state.getLines(startLine + 1, lastLine, state.tShift[startLine], false),
+      closing,
+    ]
+      .filter((part) => part.trim())
+      .join("\n");
+  }
+
+  if (silent) {
+    return true;
+  }
+  state.line = lastLine + 1;
+  const token = state.push("math_block", "math", 0);
+  token.block = true;
+  token.markup = "$$";
+  token.content = content.trim();
+  token.map = [startLine, state.line];
+  return true;
+};
+
+export const mathPlugin: PluginSimple = (md) => {
+  md.inline.ruler.after("escape", "math_inline", mathInline);
+  md.block.ruler.before("fence", "math_block", mathBlock, {
+    alt: ["paragraph", "reference", "blockquote", "list"],
+  });
+  md.renderer.rules.math_inline = (tokens, idx) => {
+    const latex = tokens[idx].content;
+    return `<span class="${MATH_INLINE_CLASS}" data-latex="${md.utils.escapeHtml(
+      latex
+    )}">${renderMath(latex, false)}</span>`;
+  };
+  md.renderer.rules.math_block = (tokens, idx) => {
+    const latex = tokens[idx].content;
+    return `<div class="${MATH_BLOCK_CLASS}" data-latex="${md.utils.escapeHtml(
+      latex
+    )}">${renderMath(latex, true)}</div>\n`;
+  };
+};
@@ -0,0 +1,42 @@
+import type { PluginSimple } from "markdown-it";
+import type StateBlock from "markdown-it/lib/rules_block/state_block.mjs";
+
+// `html: false` turns `<!-- pagebreak -->` into literal text, so both forms are
+// matched as a block of their own before the paragraph rule sees them.
+const PAGE_BREAK_PATTERN = /^(?:\\pagebreak|<!--\s*pagebreak\s*-->)$/i;
+
+export const PAGE_BREAK_MARKDOWN = "\\pagebreak";
+export const PAGE_BREAK_CLASS = "page-break";
+
+const pageBreakRule = (
+  state: StateBlock,
+  startLine: number,
+  _endLine: number,
+  silent: boolean
+): boolean => {
+  const start = state.bMarks[startLine] + state.tShift[startLine];
+  const max = state.eMarks[startLine];
+  if (state.sCount[startLine] - state.blkIndent >= 4) {
+    return false;
+  }
+  const line = state.src.slice(start, max).trim();
+  if (!PAGE_BREAK_PATTERN.test(line)) {
+    return false;
+  }
+  if (silent) {
+    return true;
+  }
+  const token = state.push("page_break", "div", 0);
+  token.map = [startLine, startLine + 1];
+  token.markup = line;
+  state.line = startLine + 1;
+  return true;
+};
+
+export const pageBreakPlugin: PluginSimple = (md) => {
+  md.block.ruler.before("paragraph", "page_break", pageBreakRule, {
+    alt: ["paragraph", "reference", "blockquote", "list"],
+  });
+  md.renderer.rules.page_break = () =>
+    `<div class="${PAGE_BREAK_CLASS}" role="separator" aria-label="Page break"></div>\n`;
+};
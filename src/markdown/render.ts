@@ -0,0 +1,54 @@
+import DOMPurify from "dompurify";
+import MarkdownIt from "markdown-it";
+import { diagramPlugin } from "./diagrams";
+import {
+  MarkdownExtensionId,
+  allMarkdownExtensions,
+  useMarkdownExtensions,
+} from "./extensions";
+import { headingIdsPlugin } from "./headingIds";
+import { highlightCode } from "./highlight";
+import { mathPlugin } from "./math";
+import { pageBreakPlugin } from "./pageBreak";
+import { TocEnv, tocPlugin } from "./toc";
+
+const createMarkdown = (extensions: readonly MarkdownExtensionId[]) =>
+  useMarkdownExtensions(
+    new MarkdownIt({
+      html: false,
+      linkify: true,
+      breaks: true,
+      highlight: highlightCode,
+    })
+      .use(pageBreakPlugin)
+      .use(mathPlugin)
+      .use(diagramPlugin)
+      .use(headingIdsPlugin)
+      .use(tocPlugin),
+    extensions
+  );
+
+let extensionsKey = allMarkdownExtensions.join(",");
+
+// Reassigned when the enabled extensions change; importers see the live
+// binding, so `md.render` always uses the current set.
+export let md = createMarkdown(allMarkdownExtensions);
+
+export const setMarkdownExtensions = (
+  extensions: readonly MarkdownExtensionId[]
+): boolean => {
+  const key = allMarkdownExtensions
+    .filter((id) => extensions.includes(id))
+    .join(",");
+  if (key === extensionsKey) {
+    return false;
+  }
+  extensionsKey = key;
+  md = createMarkdown(extensions);
+  return true;
+};
+
+export const renderMarkdown = (markdown: string, env: TocEnv = {}): string =>
+  DOMPurify.sanitize(md.render(markdown, env), {
+    ALLOWED_URI_REGEXP: /^(?:(?:https?|mailto|tel|appimg):|[^a-z]|[a-z+.\-]+(?:[^a-z+.\-:]|$))/i,
+  });
@@ -0,0 +1,150 @@
+import type { PluginSimple } from "markdown-it";
+import type StateBlock from "markdown-it/lib/rules_block/state_block.mjs";
+import type StateCore from "markdown-it/lib/rules_core/state_core.mjs";
+import type Token from "markdown-it/lib/token.mjs";
+import { slugify } from "./headingIds";
+
+export type HeadingLevel = 1 | 2 | 3 | 4 | 5 | 6;
+
+export type TocEnv = {
+  tocDepth?: HeadingLevel;
+};
+
+export const TOC_MARKDOWN = "[[toc]]";
+export const TOC_CLASS = "toc";
+export const DEFAULT_TOC_DEPTH: HeadingLevel = 3;
+
+const TOC_PATTERN = /^\[\[_?toc_?\]\]$/i;
+
+type TocEntry = {
+  level: number;
+  id: string;
+  text: string;
+  children: TocEntry[];
+};
+
+export const isHeadingLevel = (value: unknown): value is HeadingLevel =>
+  typeof value === "number" &&
+  Number.isInteger(value) &&
+  value >= 1 &&
+  value <= 6;
+
+const tocRule = (
+  state: StateBlock,
+  startLine: number,
+  _endLine: number,
+  silent: boolean
+): boolean => {
+  const start = state.bMarks[startLine] + state.tShift[startLine];
+  if (state.sCount[startLine] - state.blkIndent >= 4) {
+    return false;
+  }
+  const line = state.src.slice(start, state.eMarks[startLine]).trim();
+  if (!TOC_PATTERN.test(line)) {
+    return false;
+  }
+  if (silent) {
+    return true;
+  }
+  const token = state.push("toc", "nav", 0);
+  token.block = true;
+  token.markup = line;
+  token.map = [startLine, startLine + 1];
+  state.line = startLine + 1;
+  return true;
+};
+
+const headingText = (inline: Token | undefined) =>
+  (inline?.children ?? [])
+    .filter((child) => child.type === "text" || child.type === "code_inline")
+    .map((child) => child.content)
+    .join("")
+    .trim();
+
+// Runs after the heading ids rule so every entry links to the same slug the
+// heading itself carries; a jump such as H1 → H3 nests one level, not two.
+const collectTocRule = (state: StateCore) => {
+  const markers = state.tokens.filter((token) => token.type === "toc");
+  if (markers.length === 0) {
+    return;
+  }
+  const env = state.env as TocEnv | undefined;
+  const depth = isHeadingLevel(env?.tocDepth)
+    ? env.tocDepth
+    : DEFAULT_TOC_DEPTH;
+  const entries: TocEntry[] = [];
+  const stack: TocEntry[] = [];
+  state.tokens.forEach((token, index) => {
+    if (token.type !== "heading_open") {
+      return;
+    }
+    const level = Number(token.tag.slice(1));
+    if (level > depth) {
+      return;
+    }
+    const text = headingText(state.tokens[index + 1]);
+    if (!text) {
+      return;
+    }
+    const entry: TocEntry = {
+      level,
+      id: token.attrGet("id") ?? slugify(text),
+      text,
+      children: [],
+    };
+    while (stack.length > 0 && stack[stack.length - 1].level >= level) {
+      stack.pop();
+    }
+    (stack[stack.length - 1]?.children ?? entries).push(entry);
+    stack.push(entry);
+  });
+  markers.forEach((token) => {
+    token.meta = { entries };
+  });
+};
+
+// Page numbers start empty and are filled in by the paginated exporters.
+const renderEntries = (
+  entries: TocEntry[],
+  escape: (text: string) => string
+): string =>
+  `<ul class="toc-list">${entries
+    .map(
+      (entry) =>
+        `<li><a class="toc-link" href="#${escape(entry.id)}"><span class="toc-text">${escape(
+          entry.text
+        )}</span><span class="toc-page" data-toc-target="${escape(
+          entry.id
+        )}"></span></a>${
+          entry.children.length > 0 ? renderEntries(entry.children, escape) : ""
+        }</li>`
+    )
+    .join("")}</ul>`;
+
+export const tocPlugin: PluginSimple = (md) => {
+  md.block.ruler.before("paragraph", "toc", tocRule, {
+    alt: ["paragraph", "reference", "blockquote", "list"],
+  });
+  md.core.ruler.push("toc", collectTocRule);
+  md.renderer.rules.toc = (tokens, idx) => {
+    const entries = (tokens[idx].meta?.entries ?? []) as TocEntry[];
+    return `<nav class="${TOC_CLASS}" aria-label="Table of contents">${renderEntries(
+      entries,
+      md.utils.escapeHtml
+    )}</nav>\n`;
+  };
+};
+
+// Must run on the measured export content once pagination has placed every
+// heading; page numbers are 1-based like the running header and footer.
+export const fillTocPageNumbers = (
+  content: HTMLElement,
+  anchors: Map<string, { pageIndex: number }>
+) => {
+  content
+    .querySelectorAll<HTMLElement>(".toc-page[data-toc-target]")
+    .forEach((page) => {
+      const target = anchors.get(page.dataset.tocTarget ?? "");
+      page.textContent = target ? String(target.pageIndex + 1) : "";
+    });
+};
@@ -0,0 +1,223 @@
+import JSZip from "jszip";
+import { getImage } from "../assets/idb";
+import { imageExtension, storeImageFile } from "../assets/images";
+import {
+  FontVariant,
+  getFontBuffer,
+  getStoredVariants,
+  isFontUrl,
+  storeFontBuffer,
+  storeFontVariants,
+} from "../fonts/fonts";
+import { uniformMargins } from "../layout/pageMargins";
+import { collectImageIds } from "./persist";
+import {
+  AppSettings,
+  DocumentSettings,
+  pickDocumentSettings,
+  validateSettingsPatch,
+} from "./settings";
+
+const BUNDLE_FORMAT = "mso-bundle";
+const BUNDLE_VERSION = 1;
+const MANIFEST_PATH = "manifest.json";
+const DOCUMENT_PATH = "document.md";
+
+type BundleImage = {
+  id: string;
+  name: string;
+  mime: string;
+  path: string;
+};
+
+type BundleFont = FontVariant & {
+  path: string;
+};
+
+type BundleManifest = {
+  format: typeof BUNDLE_FORMAT;
+  version: number;
+  exportedAt: string;
+  title: string;
+  settings: DocumentSettings;
+  maxPages: number;
+  advancedPages: boolean;
+  font: {
+    family: string;
+    variants: FontVariant[];
+  };
+  images: BundleImage[];
+  fonts: BundleFont[];
+};
+
+export type BundleSource = {
+  title: string;
+  markdown: string;
+  settings: AppSettings;
+  includeFonts: boolean;
+};
+
+// App-wide settings a bundle may carry besides the document's own.
+const bundleAppSettingKeys = [
+  "maxPages",
+  "advancedPages",
+  "previewPadding",
+] as const;
+
+export type ImportedBundle = {
+  title: string;
+  markdown: string;
+  settings: DocumentSettings;
+  appSettings: Partial<
+    Pick<AppSettings, (typeof bundleAppSettingKeys)[number]>
+  >;
+  missingImages: number;
+};
+
+export const createBundle = async ({
+  title,
+  markdown,
+  settings,
+  includeFonts,
+}: BundleSource): Promise<Blob> => {
+  const zip = new JSZip();
+  zip.file(DOCUMENT_PATH, markdown);
+
+  const images: BundleImage[] = [];
+  for (const id of collectImageIds(markdown)) {
+    const record = await getImage(id);
+    if (!record) {
+      continue;
+    }
+    const path = `images/${id}.${imageExtension(record.mime)}`;
+    zip.file(path, record.blob);
+    images.push({ id, name: record.name, mime: record.mime, path });
+  }
+
+  const variants =
+    settings.fontFamily === "System"
+      ? []
+      : getStoredVariants(settings.fontFamily) ?? [];
+  const fonts: BundleFont[] = [];
+  if (includeFonts) {
+    for (const [index, variant] of variants.entries()) {
+      try {
+        const buffer = await getFontBuffer(variant);
+        const extension = variant.url.endsWith(".woff2") ? "woff2" : "woff";
+        const path = `fonts/${index + 1}.${extension}`;
+        zip.file(path, buffer);
+        fonts.push({ ...variant, path });
+      } catch {
+        // fonts are optional; the importer falls back to downloading them
+      }
+    }
+  }
+
+  const manifest: BundleManifest = {
+    format: BUNDLE_FORMAT,
+    version: BUNDLE_VERSION,
+    exportedAt: new Date().toISOString(),
+    title,
+    settings: pickDocumentSettings(settings),
+    maxPages: settings.maxPages,
+    advancedPages: settings.advancedPages,
+    font: { family: settings.fontFamily, variants },
+    images,
+    fonts,
+  };
+  zip.file(MANIFEST_PATH, JSON.stringify(manifest, null, 2));
+  return zip.generateAsync({ type: "blob" });
+};
+
+const isCount = (value: unknown): value is number =>
+  typeof value === "number" && Number.isFinite(value) && value >= 0;
+
+const readManifest = async (zip: JSZip): Promise<BundleManifest> => {
+  const raw = await zip.file(MANIFEST_PATH)?.async("string");
+  if (!raw) {
+    throw new Error("Not a project bundle: manifest.json is missing.");
+  }
+  let manifest: BundleManifest;
+  try {
+    manifest = JSON.parse(raw) as BundleManifest;
+  } catch {
+    throw new Error("Bundle manifest could not be read.");
+  }
+  if (manifest.format !== BUNDLE_FORMAT) {
+    throw new Error("Not a project bundle.");
+  }
+  if (manifest.version > BUNDLE_VERSION) {
+    throw new Error("This bundle was made by a newer version of the app.");
+  }
+  return manifest;
+};
+
+// Images get fresh ids so importing never overwrites anything already
+// stored in this browser; references in the markdown are rewritten to match.
+export const readBundle = async (file: Blob): Promise<ImportedBundle> => {
+  let zip: JSZip;
+  try {
+    zip = await JSZip.loadAsync(file);
+  } catch {
+    throw new Error("Bundle is not a valid ZIP file.");
+  }
+  const manifest = await readManifest(zip);
+  let markdown = (await zip.file(DOCUMENT_PATH)?.async("string")) ?? "";
+
+  let missingImages = 0;
+  for (const image of manifest.images ?? []) {
+    const blob = await zip.file(image.path)?.async("blob");
+    const stored = blob
+      ? await storeImageFile(
+          new File([blob], image.name, { type: image.mime }),
+          true
+        )
+      : null;
+    if (!stored || !("id" in stored)) {
+      missingImages += 1;
+      continue;
+    }
+    markdown = markdown.split(`appimg://${image.id}`).join(stored.src);
+  }
+
+  const family = manifest.font?.family;
+  const variants = (manifest.font?.variants ?? []).filter((variant) =>
+    isFontUrl(variant.url)
+  );
+  if (family && family !== "System" && variants.length > 0) {
+    storeFontVariants(family, variants);
+    for (const font of manifest.fonts ?? []) {
+      const buffer = await zip.file(font.path)?.async("arraybuffer");
+      if (buffer) {
+        await storeFontBuffer(font.url, buffer).catch(() => undefined);
+      }
+    }
+  }
+
+  // Earlier bundles stored one margin and the padding beside the settings
+  // instead of in them.
+  const layout = (
+    manifest as { layout?: { margin?: unknown; padding?: unknown } }
+  ).layout;
+  const legacyMargin = layout?.margin;
+  const { settings } = validateSettingsPatch({
+    ...(isCount(legacyMargin) ? { margins: uniformMargins(legacyMargin) } : {}),
+    previewPadding: layout?.padding,
+    ...(typeof manifest.settings === "object" ? manifest.settings : {}),
+    maxPages: manifest.maxPages,
+    advancedPages: manifest.advancedPages,
+  });
+  const appSettings: ImportedBundle["appSettings"] = {};
+  bundleAppSettingKeys.forEach((key) => {
+    if (settings[key] !== undefined) {
+      Object.assign(appSettings, { [key]: settings[key] });
+    }
+  });
+  return {
+    title: typeof manifest.title === "string" ? manifest.title : "",
+    markdown,
+    settings: pickDocumentSettings(settings),
+    appSettings,
+    missingImages,
+  };
+};
@@ -0,0 +1,99 @@
+import {
+  deleteDocument as deleteDocumentRecord,
+  getDocument as getDocumentRecord,
+  getDocuments,
+  putDocument,
+  StoredDocument,
+} from "../assets/idb";
+import { parseFrontMatter, splitFrontMatter } from "../markdown/frontMatter";
+import type { DocumentSettings } from "./settings";
+
+const ACTIVE_DOCUMENT_KEY = "mso-active-document";
+const UNTITLED = "Untitled document";
+
+export type LibraryDocument = StoredDocument;
+
+// A front-matter title wins over the first heading of the body.
+export const titleFromMarkdown = (
+  markdown: string,
+  fallback = UNTITLED
+): string => {
+  const { frontMatter, body } = splitFrontMatter(markdown);
+  const title =
+    parseFrontMatter(frontMatter).values.title ??
+    body.match(/^#\s+(.+)$/m)?.[1].trim();
+  return title ? title.slice(0, 120) : fallback;
+};
+
+export const listDocuments = async (): Promise<LibraryDocument[]> => {
+  const records = await getDocuments();
+  return records.sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+export const getLibraryDocument = (
+  id: string
+): Promise<LibraryDocument | null> => getDocumentRecord(id);
+
+export const createDocument = async (
+  markdown: string,
+  options: { title?: string; settings?: DocumentSettings } = {}
+): Promise<LibraryDocument> => {
+  const now = Date.now();
+  const record: LibraryDocument = {
+    id: crypto.randomUUID(),
+    title: options.title?.trim() || titleFromMarkdown(markdown),
+    markdown,
+    settings: { ...options.settings },
+    createdAt: now,
+    updatedAt: now,
+  };
+  await putDocument(record);
+  return record;
+};
+
+export const saveDocument = async (
+  record: LibraryDocument
+): Promise<LibraryDocument> => {
+  const next = { ...record, updatedAt: Date.now() };
+  await putDocument(next);
+  return next;
+};
+
+export const renameDocument = async (
+  record: LibraryDocument,
+  title: string
+): Promise<LibraryDocument> =>
+  saveDocument({ ...record, title: title.trim() || UNTITLED });
+
+export const duplicateDocument = (
+  record: LibraryDocument
+): Promise<LibraryDocument> =>
+  createDocument(record.markdown, {
+    title: `${record.title} (copy)`,
+    settings: record.settings,
+  });
+
+export const removeDocument = (id: string): Promise<void> =>
+  deleteDocumentRecord(id);
+
+export const getActiveDocumentId = (): string | null =>
+  localStorage.getItem(ACTIVE_DOCUMENT_KEY);
+
+export const setActiveDocumentId = (id: string): void => {
+  localStorage.setItem(ACTIVE_DOCUMENT_KEY, id);
+};
+
+export const searchDocuments = (
+  documents: LibraryDocument[],
+  query: string
+): LibraryDocument[] => {
+  const needle = query.trim().toLowerCase();
+  if (!needle) {
+    return documents;
+  }
+  return documents.filter(
+    (doc) =>
+      doc.title.toLowerCase().includes(needle) ||
+      doc.markdown.toLowerCase().includes(needle)
+  );
+};
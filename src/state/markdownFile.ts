@@ -0,0 +1,82 @@
+import JSZip from "jszip";
+import { getImage } from "../assets/idb";
+import { blobToDataUrl, imageExtension } from "../assets/images";
+import { collectImageIds } from "./persist";
+
+const MAX_MARKDOWN_BYTES = 5 * 1024 * 1024;
+const MARKDOWN_EXTENSIONS = /\.(md|markdown|mdown|mkd|txt)$/i;
+
+export type MarkdownImageMode = "keep" | "inline" | "alongside";
+
+export type MarkdownSaveOptions = {
+  markdown: string;
+  baseName: string;
+  frontMatter: Record<string, string> | null;
+  images: MarkdownImageMode;
+};
+
+export const isMarkdownFile = (file: File): boolean =>
+  file.type === "text/markdown" ||
+  file.type === "text/x-markdown" ||
+  MARKDOWN_EXTENSIONS.test(file.name);
+
+export const titleFromFileName = (name: string): string =>
+  name.replace(/\.[^.]+$/, "").replace(/[-_]+/g, " ").trim();
+
+export const readMarkdownFile = async (file: File): Promise<string> => {
+  if (file.size > MAX_MARKDOWN_BYTES) {
+    throw new Error("Markdown file exceeds 5 MB limit.");
+  }
+  const text = await file.text();
+  return text.replace(/^\uFEFF/, "").replace(/\r\n?/g, "\n");
+};
+
+// Values are written as JSON strings, which YAML reads as quoted scalars.
+export const formatFrontMatter = (fields: Record<string, string>): string => {
+  const lines = Object.entries(fields)
+    .filter(([, value]) => value.trim())
+    .map(([key, value]) => `${key}: ${JSON.stringify(value)}`);
+  return lines.length > 0 ? `---\n${lines.join("\n")}\n---\n\n` : "";
+};
+
+// `appimg://` references only resolve in this browser, so they are either
+// replaced by data URIs or written next to the file inside a ZIP.
+export const buildMarkdownFile = async ({
+  markdown,
+  baseName,
+  frontMatter,
+  images,
+}: MarkdownSaveOptions): Promise<{ blob: Blob; fileName: string }> => {
+  let body = markdown;
+  const ids = images === "keep" ? [] : collectImageIds(markdown);
+  const files: Array<{ path: string; blob: Blob }> = [];
+  for (const id of ids) {
+    const record = await getImage(id);
+    if (!record) {
+      continue;
+    }
+    const replacement =
+      images === "inline"
+        ? await blobToDataUrl(record.blob)
+        : `images/${id}.${imageExtension(record.mime)}`;
+    if (images === "alongside") {
+      files.push({ path: replacement, blob: record.blob });
+    }
+    body = body.split(`appimg://${id}`).join(replacement);
+  }
+  const text = `${frontMatter ? formatFrontMatter(frontMatter) : ""}${body}`;
+
+  if (files.length === 0) {
+    return {
+      blob: new Blob([text], { type: "text/markdown;charset=utf-8" }),
+      fileName: `${baseName}.md`,
+    };
+  }
+  const zip = new JSZip();
+  zip.file(`${baseName}.md`, text);
+  files.forEach(({ path, blob }) => zip.file(path, blob));
+  return {
+    blob: await zip.generateAsync({ type: "blob" }),
+    fileName: `${baseName}.zip`,
+  };
+};
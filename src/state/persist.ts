@@ -0,0 +1,87 @@
+import { getDrafts, putDraft, StoredDraft } from "../assets/idb";
+
+// Drafts alternate between two slots so a save that dies half-way can only
+// ever damage the older copy; the newest slot with a valid checksum wins.
+const DRAFT_SLOTS = ["draft-a", "draft-b"] as const;
+
+export type Draft = {
+  documentId: string | null;
+  markdown: string;
+  imageIds: string[];
+  savedAt: number;
+};
+
+let lastSequence = 0;
+let lastSlot: string | null = null;
+let pendingWrite: Promise<void> = Promise.resolve();
+
+const checksum = (text: string): string => {
+  let hash = 0x811c9dc5;
+  for (let index = 0; index < text.length; index += 1) {
+    hash ^= text.charCodeAt(index);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return `${text.length}:${(hash >>> 0).toString(16)}`;
+};
+
+export const collectImageIds = (markdown: string): string[] => {
+  const ids = new Set<string>();
+  for (const match of markdown.matchAll(/appimg:\/\/([\w-]+)/g)) {
+    ids.add(match[1]);
+  }
+  return Array.from(ids);
+};
+
+const isValidDraft = (record: StoredDraft): boolean =>
+  typeof record.markdown === "string" &&
+  Number.isFinite(record.sequence) &&
+  record.checksum === checksum(record.markdown);
+
+export const loadDraft = async (): Promise<Draft | null> => {
+  const records = await getDrafts();
+  const valid = records
+    .filter(isValidDraft)
+    .sort((a, b) => b.sequence - a.sequence);
+  const latest = valid[0];
+  const highest = records.reduce(
+    (max, record) =>
+      Number.isFinite(record.sequence) ? Math.max(max, record.sequence) : max,
+    0
+  );
+  lastSequence = Math.max(lastSequence, highest);
+  if (!latest) {
+    return null;
+  }
+  lastSlot = latest.id;
+  return {
+    documentId: latest.documentId ?? null,
+    markdown: latest.markdown,
+    imageIds: latest.imageIds ?? collectImageIds(latest.markdown),
+    savedAt: latest.savedAt,
+  };
+};
+
+export const saveDraft = (
+  markdown: string,
+  documentId: string
+): Promise<void> => {
+  const write = async () => {
+    const slot =
+      lastSlot === DRAFT_SLOTS[0] ? DRAFT_SLOTS[1] : DRAFT_SLOTS[0];
+    const sequence = lastSequence + 1;
+    await putDraft({
+      id: slot,
+      documentId,
+      sequence,
+      savedAt: Date.now(),
+      markdown,
+      imageIds: collectImageIds(markdown),
+      checksum: checksum(markdown),
+    });
+    lastSequence = sequence;
+    lastSlot = slot;
+  };
+  // Writes are serialised so two saves never race for the same slot.
+  pendingWrite = pendingWrite.catch(() => undefined).then(write);
+  return pendingWrite;
+};
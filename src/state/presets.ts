@@ -0,0 +1,249 @@
+import { sameMargins, uniformMargins } from "../layout/pageMargins";
+import { AppSettings, validateSettingsPatch } from "./settings";
+import { CustomTheme, loadCustomThemes } from "./themes";
+
+// Everything the typography and page-layout controls change; switching a
+// preset replaces exactly these and leaves content-related settings alone.
+export const PRESET_SETTING_KEYS = [
+  "theme",
+  "fontFamily",
+  "fontSize",
+  "lineHeight",
+  "maxWidth",
+  "paragraphSpacing",
+  "pageSize",
+  "pageOrientation",
+  "customPageWidth",
+  "customPageHeight",
+  "margins",
+  "mirrorMargins",
+  "gutter",
+  "previewPadding",
+] as const;
+
+export type PresetSettings = Pick<
+  AppSettings,
+  (typeof PRESET_SETTING_KEYS)[number]
+>;
+
+export type StylePreset = {
+  id: string;
+  name: string;
+  builtIn: boolean;
+  settings: PresetSettings;
+};
+
+export const builtInPresets: StylePreset[] = [
+  {
+    id: "memo",
+    name: "Memo",
+    builtIn: true,
+    settings: {
+      theme: "light",
+      fontFamily: "Inter",
+      fontSize: 14,
+      lineHeight: 1.5,
+      maxWidth: 170,
+      paragraphSpacing: 10,
+      pageSize: "a4",
+      pageOrientation: "portrait",
+      customPageWidth: 210,
+      customPageHeight: 297,
+      margins: uniformMargins(20),
+      mirrorMargins: false,
+      gutter: 0,
+      previewPadding: 24,
+    },
+  },
+  {
+    id: "report",
+    name: "Report",
+    builtIn: true,
+    settings: {
+      theme: "paper",
+      fontFamily: "Merriweather",
+      fontSize: 15,
+      lineHeight: 1.7,
+      maxWidth: 160,
+      paragraphSpacing: 14,
+      pageSize: "a4",
+      pageOrientation: "portrait",
+      customPageWidth: 210,
+      customPageHeight: 297,
+      margins: uniformMargins(28),
+      mirrorMargins: false,
+      gutter: 0,
+      previewPadding: 24,
+    },
+  },
+  {
+    id: "handout",
+    name: "Handout",
+    builtIn: true,
+    settings: {
+      theme: "light",
+      fontFamily: "Source Sans 3",
+      fontSize: 16,
+      lineHeight: 1.6,
+      maxWidth: 190,
+      paragraphSpacing: 12,
+      pageSize: "letter",
+      pageOrientation: "portrait",
+      customPageWidth: 210,
+      customPageHeight: 297,
+      margins: uniformMargins(12),
+      mirrorMargins: false,
+      gutter: 0,
+      previewPadding: 12,
+    },
+  },
+];
+
+const PRESETS_KEY = "mso-presets";
+const PRESET_FILE_FORMAT = "mso-presets";
+const PRESET_FILE_VERSION = 2;
+
+const createPresetId = () => `preset-${crypto.randomUUID()}`;
+
+// Presets come from local storage or shared files, so the settings go
+// through the same validators as stored settings and anything unusable falls
+// back to the memo starter. Version 1 kept one margin and the padding in a
+// separate `layout` object.
+const cleanPreset = (
+  value: unknown,
+  customThemes: CustomTheme[]
+): Omit<StylePreset, "id"> | null => {
+  if (typeof value !== "object" || value === null) {
+    return null;
+  }
+  const raw = value as Record<string, unknown>;
+  const name = typeof raw.name === "string" ? raw.name.trim().slice(0, 60) : "";
+  if (!name) {
+    return null;
+  }
+  const source = (
+    typeof raw.settings === "object" && raw.settings !== null ? raw.settings : {}
+  ) as Record<string, unknown>;
+  const layout = (
+    typeof raw.layout === "object" && raw.layout !== null ? raw.layout : {}
+  ) as Record<string, unknown>;
+  const { settings } = validateSettingsPatch(
+    {
+      ...(typeof layout.margin === "number"
+        ? { margins: uniformMargins(layout.margin) }
+        : {}),
+      previewPadding: layout.padding,
+      ...source,
+    },
+    customThemes
+  );
+  const picked = {} as Record<string, unknown>;
+  PRESET_SETTING_KEYS.forEach((key) => {
+    picked[key] = settings[key] ?? builtInPresets[0].settings[key];
+  });
+  return { name, builtIn: false, settings: picked as PresetSettings };
+};
+
+// Saved presets keep their ids; only shared preset files get fresh ones.
+// `customThemes` lets an import accept the themes that arrive with it.
+export const readPresets = (
+  value: unknown,
+  customThemes: CustomTheme[] = loadCustomThemes()
+): StylePreset[] =>
+  Array.isArray(value)
+    ? value.flatMap((item: unknown) => {
+        const preset = cleanPreset(item, customThemes);
+        const id = preset ? (item as { id?: unknown }).id : undefined;
+        return preset &&
+          typeof id === "string" &&
+          !builtInPresets.some((builtIn) => builtIn.id === id)
+          ? [{ ...preset, id }]
+          : [];
+      })
+    : [];
+
+export const loadPresets = (): StylePreset[] => {
+  const raw = localStorage.getItem(PRESETS_KEY);
+  if (!raw) {
+    return [];
+  }
+  try {
+    return readPresets(JSON.parse(raw));
+  } catch {
+    return [];
+  }
+};
+
+export const savePresets = (presets: StylePreset[]) => {
+  localStorage.setItem(
+    PRESETS_KEY,
+    JSON.stringify(presets.filter((preset) => !preset.builtIn))
+  );
+};
+
+export const capturePreset = (
+  name: string,
+  settings: AppSettings
+): StylePreset => {
+  const picked = {} as Record<string, unknown>;
+  PRESET_SETTING_KEYS.forEach((key) => {
+    picked[key] = key === "margins" ? { ...settings.margins } : settings[key];
+  });
+  return {
+    id: createPresetId(),
+    name,
+    builtIn: false,
+    settings: picked as PresetSettings,
+  };
+};
+
+export const presetMatches = (
+  preset: StylePreset,
+  settings: AppSettings
+): boolean =>
+  PRESET_SETTING_KEYS.every((key) =>
+    key === "margins"
+      ? sameMargins(preset.settings.margins, settings.margins)
+      : preset.settings[key] === settings[key]
+  );
+
+export const serializePresets = (presets: StylePreset[]): string =>
+  JSON.stringify(
+    {
+      format: PRESET_FILE_FORMAT,
+      version: PRESET_FILE_VERSION,
+      presets: presets.map(({ name, settings }) => ({ name, settings })),
+    },
+    null,
+    2
+  );
+
+// Imported presets get fresh ids so they never replace local ones.
+export const parsePresetFile = (text: string): StylePreset[] => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error("Preset file is not valid JSON.");
+  }
+  const file = data as {
+    format?: unknown;
+    version?: unknown;
+    presets?: unknown;
+  };
+  if (file?.format !== PRESET_FILE_FORMAT || !Array.isArray(file.presets)) {
+    throw new Error("Not a preset file.");
+  }
+  if (typeof file.version === "number" && file.version > PRESET_FILE_VERSION) {
+    throw new Error("This preset file was made by a newer version of the app.");
+  }
+  const customThemes = loadCustomThemes();
+  const presets = file.presets.flatMap((item: unknown) => {
+    const preset = cleanPreset(item, customThemes);
+    return preset ? [{ ...preset, id: createPresetId() }] : [];
+  });
+  if (presets.length === 0) {
+    throw new Error("Preset file contains no usable presets.");
+  }
+  return presets;
+};
@@ -0,0 +1,500 @@
+import { isFontFamilyName } from "../fonts/fonts";
+import {
+  DEFAULT_MARGIN_MM,
+  MAX_GUTTER_MM,
+  PageMargins,
+  sanitizeMargins,
+  uniformMargins,
+} from "../layout/pageMargins";
+import {
+  MAX_PAGE_MM,
+  MIN_PAGE_MM,
+  PageOrientation,
+  PageSizeId,
+  isPageSizeId,
+} from "../layout/pageSizes";
+import {
+  MarkdownExtensionId,
+  allMarkdownExtensions,
+  isMarkdownExtensionId,
+} from "../markdown/extensions";
+import {
+  DEFAULT_TOC_DEPTH,
+  HeadingLevel,
+  isHeadingLevel,
+} from "../markdown/toc";
+import { ElementStyles, sanitizeElementStyles } from "../layout/elementStyles";
+import { emptyBand, RunningBand, sanitizeBand } from "../layout/runningBands";
+import { MAX_USER_CSS_LENGTH } from "../layout/userCss";
+import {
+  CustomTheme,
+  isBuiltInThemeId,
+  isThemeId,
+  loadCustomThemes,
+  ThemeId,
+} from "./themes";
+
+export type AppSettings = {
+  theme: ThemeId;
+  fontSize: number;
+  lineHeight: number;
+  maxWidth: number;
+  paragraphSpacing: number;
+  allowLargeImages: boolean;
+  maxPages: number;
+  advancedPages: boolean;
+  pdfMethod: "html2pdf" | "pdflib";
+  fontFamily: string;
+  warnOnOfflineFont: boolean;
+  pageSize: PageSizeId;
+  pageOrientation: PageOrientation;
+  customPageWidth: number;
+  customPageHeight: number;
+  // Page margins and the binding gutter are in millimetres; the preview
+  // padding around the page is in screen pixels and never exported.
+  margins: PageMargins;
+  mirrorMargins: boolean;
+  gutter: number;
+  previewPadding: number;
+  header: RunningBand;
+  footer: RunningBand;
+  hideBandsOnFirstPage: boolean;
+  pdfAuthor: string;
+  pdfSubject: string;
+  pdfKeywords: string;
+  editorMode: "rich" | "source";
+  codeLineNumbers: boolean;
+  markdownExtensions: MarkdownExtensionId[];
+  tocDepth: HeadingLevel;
+  elementStyles: ElementStyles;
+  userCss: string;
+};
+
+export const defaultSettings: AppSettings = {
+  theme: "light",
+  fontSize: 15,
+  lineHeight: 1.6,
+  maxWidth: 170,
+  paragraphSpacing: 14,
+  allowLargeImages: false,
+  maxPages: 10,
+  advancedPages: false,
+  pdfMethod: "html2pdf",
+  fontFamily: "System",
+  warnOnOfflineFont: true,
+  pageSize: "a4",
+  pageOrientation: "portrait",
+  customPageWidth: 210,
+  customPageHeight: 297,
+  margins: uniformMargins(DEFAULT_MARGIN_MM),
+  mirrorMargins: false,
+  gutter: 0,
+  previewPadding: 24,
+  header: emptyBand(),
+  footer: emptyBand(),
+  hideBandsOnFirstPage: false,
+  pdfAuthor: "",
+  pdfSubject: "",
+  pdfKeywords: "",
+  editorMode: "rich",
+  codeLineNumbers: false,
+  markdownExtensions: [...allMarkdownExtensions],
+  tocDepth: DEFAULT_TOC_DEPTH,
+  elementStyles: {},
+  userCss: "",
+};
+
+// Keys that describe how a document looks; these travel with each document
+// in the library while the rest stay app-wide.
+export const documentSettingKeys = [
+  "theme",
+  "fontSize",
+  "lineHeight",
+  "maxWidth",
+  "paragraphSpacing",
+  "fontFamily",
+  "pageSize",
+  "pageOrientation",
+  "customPageWidth",
+  "customPageHeight",
+  "margins",
+  "mirrorMargins",
+  "gutter",
+  "header",
+  "footer",
+  "hideBandsOnFirstPage",
+  "pdfSubject",
+  "pdfKeywords",
+  "codeLineNumbers",
+  "markdownExtensions",
+  "tocDepth",
+  "elementStyles",
+  "userCss",
+] as const;
+
+export type DocumentSettingKey = (typeof documentSettingKeys)[number];
+export type DocumentSettings = Partial<Pick<AppSettings, DocumentSettingKey>>;
+
+export const SETTINGS_KEY = "mso-settings";
+
+// Bump when the stored shape changes and add a step to `settingsMigrations`.
+export const SETTINGS_VERSION = 2;
+
+export type NumericSettingKey =
+  | "fontSize"
+  | "lineHeight"
+  | "maxWidth"
+  | "paragraphSpacing"
+  | "maxPages"
+  | "previewPadding";
+
+export type SettingRange = {
+  min: number;
+  max: number;
+  step: number;
+};
+
+// The toolbar's custom-value prompts and stored-settings validation share
+// these, so nothing saved can fall outside what the controls allow.
+export const settingRanges: Record<NumericSettingKey, SettingRange> = {
+  fontSize: { min: 12, max: 20, step: 1 },
+  lineHeight: { min: 1.3, max: 2, step: 0.05 },
+  maxWidth: { min: 120, max: 210, step: 5 },
+  paragraphSpacing: { min: 6, max: 24, step: 2 },
+  maxPages: { min: 1, max: 50, step: 1 },
+  previewPadding: { min: 0, max: 96, step: 4 },
+};
+
+export type ValidatedSettings<T> = {
+  settings: T;
+  // One readable line per setting that was reset or adjusted.
+  issues: string[];
+};
+
+type SettingValidators = {
+  [K in keyof AppSettings]: (value: unknown) => AppSettings[K] | undefined;
+};
+
+export type SettingsSection = {
+  id: string;
+  label: string;
+  keys: Array<keyof AppSettings>;
+};
+
+// How the settings centre groups settings for per-section resets.
+export const settingSections: SettingsSection[] = [
+  {
+    id: "typography",
+    label: "Theme & typography",
+    keys: [
+      "theme",
+      "fontFamily",
+      "fontSize",
+      "lineHeight",
+      "maxWidth",
+      "paragraphSpacing",
+    ],
+  },
+  {
+    id: "page",
+    label: "Page & margins",
+    keys: [
+      "pageSize",
+      "pageOrientation",
+      "customPageWidth",
+      "customPageHeight",
+      "margins",
+      "mirrorMargins",
+      "gutter",
+      "previewPadding",
+      "header",
+      "footer",
+      "hideBandsOnFirstPage",
+    ],
+  },
+  {
+    id: "export",
+    label: "Export & PDF",
+    keys: [
+      "allowLargeImages",
+      "maxPages",
+      "advancedPages",
+      "pdfMethod",
+      "pdfAuthor",
+      "pdfSubject",
+      "pdfKeywords",
+    ],
+  },
+  {
+    id: "content",
+    label: "Editor & content styles",
+    keys: [
+      "editorMode",
+      "codeLineNumbers",
+      "markdownExtensions",
+      "tocDepth",
+      "elementStyles",
+      "userCss",
+    ],
+  },
+  { id: "warnings", label: "Warnings", keys: ["warnOnOfflineFont"] },
+];
+
+const clampNumber = (min: number, max: number) => (value: unknown) =>
+  typeof value === "number" && Number.isFinite(value)
+    ? Math.min(max, Math.max(min, value))
+    : undefined;
+
+const inRange = (key: NumericSettingKey) =>
+  clampNumber(settingRanges[key].min, settingRanges[key].max);
+
+const readFlag = (value: unknown) =>
+  typeof value === "boolean" ? value : undefined;
+
+const readText = (maxLength: number) => (value: unknown) =>
+  typeof value === "string" ? value.slice(0, maxLength) : undefined;
+
+const readChoice =
+  <T extends string>(choices: readonly T[]) =>
+  (value: unknown) =>
+    choices.find((choice) => choice === value);
+
+const readObject = <T>(sanitize: (value: unknown) => T) => (value: unknown) =>
+  typeof value === "object" && value !== null && !Array.isArray(value)
+    ? sanitize(value)
+    : undefined;
+
+// `undefined` means the stored value is unusable and the default applies;
+// anything else replaces the stored value, clamped or cleaned as needed.
+const createValidators = (customThemes: CustomTheme[]): SettingValidators => ({
+  // A custom theme that has since been deleted counts as unusable too.
+  theme: (value) =>
+    isBuiltInThemeId(value) ||
+    (isThemeId(value) && customThemes.some((theme) => theme.id === value))
+      ? (value as ThemeId)
+      : undefined,
+  fontSize: inRange("fontSize"),
+  lineHeight: inRange("lineHeight"),
+  maxWidth: inRange("maxWidth"),
+  paragraphSpacing: inRange("paragraphSpacing"),
+  allowLargeImages: readFlag,
+  maxPages: (value) => {
+    const pages = inRange("maxPages")(value);
+    return pages === undefined ? undefined : Math.round(pages);
+  },
+  advancedPages: readFlag,
+  pdfMethod: readChoice(["html2pdf", "pdflib"] as const),
+  fontFamily: (value) =>
+    typeof value === "string" && isFontFamilyName(value.trim())
+      ? value.trim()
+      : undefined,
+  warnOnOfflineFont: readFlag,
+  pageSize: (value) =>
+    typeof value === "string" && isPageSizeId(value) ? value : undefined,
+  pageOrientation: readChoice(["portrait", "landscape"] as const),
+  customPageWidth: clampNumber(MIN_PAGE_MM, MAX_PAGE_MM),
+  customPageHeight: clampNumber(MIN_PAGE_MM, MAX_PAGE_MM),
+  margins: readObject((value) => sanitizeMargins(value)),
+  mirrorMargins: readFlag,
+  gutter: clampNumber(0, MAX_GUTTER_MM),
+  previewPadding: inRange("previewPadding"),
+  header: sanitizeBand,
+  footer: sanitizeBand,
+  hideBandsOnFirstPage: readFlag,
+  pdfAuthor: readText(200),
+  pdfSubject: readText(200),
+  pdfKeywords: readText(500),
+  editorMode: readChoice(["rich", "source"] as const),
+  codeLineNumbers: readFlag,
+  markdownExtensions: (value) =>
+    Array.isArray(value)
+      ? Array.from(new Set(value.filter(isMarkdownExtensionId)))
+      : undefined,
+  tocDepth: (value) => (isHeadingLevel(value) ? value : undefined),
+  elementStyles: readObject(sanitizeElementStyles),
+  userCss: (value) =>
+    typeof value === "string" && value.length <= MAX_USER_CSS_LENGTH
+      ? value
+      : undefined,
+});
+
+const settingKeys = Object.keys(defaultSettings) as Array<keyof AppSettings>;
+
+// Key order differs between what was saved and what a sanitizer rebuilds,
+// so values are compared in a canonical form.
+const canonicalJson = (value: unknown): string =>
+  JSON.stringify(value, (_key, inner: unknown) =>
+    typeof inner === "object" && inner !== null && !Array.isArray(inner)
+      ? Object.fromEntries(
+          Object.entries(inner).sort(([a], [b]) => a.localeCompare(b))
+        )
+      : inner
+  ) ?? "undefined";
+
+const describeValue = (value: unknown) => {
+  const text = canonicalJson(value);
+  return text.length > 40 ? `${text.slice(0, 37)}...` : text;
+};
+
+export type SettingChange = {
+  key: keyof AppSettings;
+  from: string;
+  to: string;
+};
+
+export const diffSettings = (
+  current: AppSettings,
+  next: Partial<AppSettings>
+): SettingChange[] =>
+  settingKeys.flatMap((key) =>
+    next[key] !== undefined &&
+    canonicalJson(next[key]) !== canonicalJson(current[key])
+      ? [
+          {
+            key,
+            from: describeValue(current[key]),
+            to: describeValue(next[key]),
+          },
+        ]
+      : []
+  );
+
+// Only the keys present in `values` are checked; unknown keys are dropped.
+// `customThemes` lets an import accept the themes that arrive with it.
+export const validateSettingsPatch = (
+  values: Record<string, unknown>,
+  customThemes: CustomTheme[] = loadCustomThemes()
+): ValidatedSettings<Partial<AppSettings>> => {
+  const settingValidators = createValidators(customThemes);
+  const settings: Partial<AppSettings> = {};
+  const issues: string[] = [];
+  settingKeys.forEach((key) => {
+    const value = values[key];
+    if (value === undefined) {
+      return;
+    }
+    const checked = settingValidators[key](value);
+    if (checked === undefined) {
+      issues.push(
+        `${key} ${describeValue(value)} was reset to ${describeValue(
+          defaultSettings[key]
+        )}`
+      );
+      return;
+    }
+    if (canonicalJson(checked) !== canonicalJson(value)) {
+      issues.push(
+        `${key} ${describeValue(value)} was changed to ${describeValue(
+          checked
+        )}`
+      );
+    }
+    Object.assign(settings, { [key]: checked });
+  });
+  return { settings, issues };
+};
+
+export const validateSettings = (
+  values: Record<string, unknown>,
+  customThemes?: CustomTheme[]
+): ValidatedSettings<AppSettings> => {
+  const { settings, issues } = validateSettingsPatch(values, customThemes);
+  return { settings: { ...defaultSettings, ...settings }, issues };
+};
+
+type SettingsMigration = (
+  values: Record<string, unknown>
+) => Record<string, unknown>;
+
+// Each step upgrades stored settings from the version it is keyed by to the
+// next one; validation runs once the chain reaches SETTINGS_VERSION.
+const settingsMigrations: Record<number, SettingsMigration> = {
+  // Version 1 is the bare object saved before settings had a version. Its
+  // keys carry over as they are; fields added since start at their defaults.
+  1: (values) => values,
+};
+
+// Migrations only run forward from a version this app wrote, so anything
+// else, including versions from a newer app, cannot be read.
+export const isSettingsVersion = (value: unknown): value is number =>
+  typeof value === "number" &&
+  Number.isInteger(value) &&
+  value >= 1 &&
+  value <= SETTINGS_VERSION;
+
+// Older entries are the settings object itself, newer ones wrap it.
+const readStoredSettings = (
+  stored: unknown
+): { version: number; values: Record<string, unknown> } | null => {
+  if (typeof stored !== "object" || stored === null || Array.isArray(stored)) {
+    return null;
+  }
+  const envelope = stored as { version?: unknown; settings?: unknown };
+  if (envelope.version === undefined) {
+    return { version: 1, values: stored as Record<string, unknown> };
+  }
+  const values = envelope.settings;
+  return isSettingsVersion(envelope.version) &&
+    typeof values === "object" &&
+    values !== null &&
+    !Array.isArray(values)
+    ? { version: envelope.version, values: values as Record<string, unknown> }
+    : null;
+};
+
+export const migrateSettings = (
+  version: number,
+  values: Record<string, unknown>
+): Record<string, unknown> => {
+  let migrated = values;
+  for (let step = version; step < SETTINGS_VERSION; step += 1) {
+    migrated = settingsMigrations[step]?.(migrated) ?? migrated;
+  }
+  return migrated;
+};
+
+export const loadSettings = (): ValidatedSettings<AppSettings> => {
+  const raw = localStorage.getItem(SETTINGS_KEY);
+  if (!raw) {
+    return { settings: { ...defaultSettings }, issues: [] };
+  }
+  let stored: ReturnType<typeof readStoredSettings> = null;
+  try {
+    stored = readStoredSettings(JSON.parse(raw));
+  } catch {
+    // handled below like any other unreadable entry
+  }
+  if (!stored) {
+    return {
+      settings: { ...defaultSettings },
+      issues: ["saved settings could not be read and were reset"],
+    };
+  }
+  const result = validateSettings(
+    migrateSettings(stored.version, stored.values)
+  );
+  // Repairs are written back so they are reported once.
+  if (stored.version < SETTINGS_VERSION || result.issues.length > 0) {
+    saveSettings(result.settings);
+  }
+  return result;
+};
+
+export const saveSettings = (settings: AppSettings) => {
+  localStorage.setItem(
+    SETTINGS_KEY,
+    JSON.stringify({ version: SETTINGS_VERSION, settings })
+  );
+};
+
+export const pickDocumentSettings = (
+  settings: Partial<AppSettings>
+): DocumentSettings => {
+  const picked: DocumentSettings = {};
+  documentSettingKeys.forEach((key) => {
+    if (settings[key] !== undefined) {
+      Object.assign(picked, { [key]: settings[key] });
+    }
+  });
+  return picked;
+};
@@ -0,0 +1,116 @@
+import {
+  FontVariantStore,
+  isFontFamilyName,
+  sanitizeFontVariants,
+} from "../fonts/fonts";
+import { readPresets, StylePreset } from "./presets";
+import {
+  AppSettings,
+  isSettingsVersion,
+  migrateSettings,
+  SETTINGS_VERSION,
+  validateSettings,
+} from "./settings";
+import { CustomTheme, loadCustomThemes, readCustomThemes } from "./themes";
+
+const BACKUP_FILE_FORMAT = "mso-settings-backup";
+const BACKUP_FILE_VERSION = 1;
+
+// Custom themes travel with the settings so a theme choice survives the
+// move to another browser.
+export type SettingsBackup = {
+  settings: AppSettings;
+  fonts: FontVariantStore;
+  presets: StylePreset[];
+  themes: CustomTheme[];
+};
+
+export type ParsedSettingsBackup = {
+  backup: SettingsBackup;
+  // Settings that were reset or adjusted while reading the file.
+  issues: string[];
+};
+
+export const serializeSettingsBackup = (backup: SettingsBackup): string =>
+  JSON.stringify(
+    {
+      format: BACKUP_FILE_FORMAT,
+      version: BACKUP_FILE_VERSION,
+      exportedAt: new Date().toISOString(),
+      settingsVersion: SETTINGS_VERSION,
+      ...backup,
+    },
+    null,
+    2
+  );
+
+const readFonts = (value: unknown): FontVariantStore => {
+  const fonts: FontVariantStore = {};
+  if (typeof value !== "object" || value === null) {
+    return fonts;
+  }
+  Object.entries(value).forEach(([family, variants]) => {
+    const clean = sanitizeFontVariants(variants);
+    if (isFontFamilyName(family) && clean.length > 0) {
+      fonts[family] = clean;
+    }
+  });
+  return fonts;
+};
+
+// Settings from an older app version run through the same migrations as
+// stored ones; invalid values are reset and reported rather than refused.
+export const parseSettingsBackup = (text: string): ParsedSettingsBackup => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error("Settings file is not valid JSON.");
+  }
+  const file = data as {
+    format?: unknown;
+    version?: unknown;
+    settingsVersion?: unknown;
+    settings?: unknown;
+    fonts?: unknown;
+    presets?: unknown;
+    themes?: unknown;
+  };
+  if (
+    file?.format !== BACKUP_FILE_FORMAT ||
+    typeof file.settings !== "object" ||
+    file.settings === null ||
+    Array.isArray(file.settings)
+  ) {
+    throw new Error("Not a settings file.");
+  }
+  if (
+    typeof file.version === "number" &&
+    file.version > BACKUP_FILE_VERSION
+  ) {
+    throw new Error(
+      "This settings file was made by a newer version of the app."
+    );
+  }
+  if (!isSettingsVersion(file.settingsVersion)) {
+    throw new Error("Not a settings file.");
+  }
+  const themes = readCustomThemes(file.themes);
+  const knownThemes = [...loadCustomThemes(), ...themes];
+  const { settings, issues } = validateSettings(
+    migrateSettings(
+      file.settingsVersion,
+      file.settings as Record<string, unknown>
+    ),
+    knownThemes
+  );
+  return {
+    backup: {
+      settings,
+      fonts: readFonts(file.fonts),
+      presets: readPresets(file.presets, knownThemes),
+      themes,
+    },
+    issues,
+  };
+};
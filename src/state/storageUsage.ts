@@ -0,0 +1,126 @@
+import { clearImages, getImages } from "../assets/idb";
+import { FONT_CACHE_NAME, FONT_VARIANTS_KEY } from "../fonts/fonts";
+import { APP_CACHE_NAME } from "../sw/register";
+import { SETTINGS_KEY } from "./settings";
+
+export type StorageAreaId =
+  | "settings"
+  | "fontList"
+  | "images"
+  | "fontFiles"
+  | "appFiles";
+
+export type StorageArea = {
+  id: StorageAreaId;
+  label: string;
+  location: string;
+  // Null when the browser refused to say, e.g. with storage blocked.
+  bytes: number | null;
+  entries: number | null;
+};
+
+type Usage = Pick<StorageArea, "bytes" | "entries">;
+
+type StorageAreaHandler = Omit<StorageArea, "bytes" | "entries"> & {
+  measure: () => Promise<Usage>;
+  clear: () => Promise<void>;
+};
+
+// Local storage holds UTF-16 strings, two bytes per character.
+const localStorageUsage = async (key: string): Promise<Usage> => {
+  const value = localStorage.getItem(key);
+  return value === null
+    ? { bytes: 0, entries: 0 }
+    : { bytes: (key.length + value.length) * 2, entries: 1 };
+};
+
+// `caches.open` would create a missing cache, so its existence is checked
+// first.
+const cacheUsage = async (name: string): Promise<Usage> => {
+  if (!("caches" in window) || !(await caches.has(name))) {
+    return { bytes: 0, entries: 0 };
+  }
+  const cache = await caches.open(name);
+  const requests = await cache.keys();
+  let bytes = 0;
+  for (const request of requests) {
+    const response = await cache.match(request);
+    bytes += response ? (await response.blob()).size : 0;
+  }
+  return { bytes, entries: requests.length };
+};
+
+const clearCache = async (name: string): Promise<void> => {
+  if ("caches" in window) {
+    await caches.delete(name);
+  }
+};
+
+const storageAreas: StorageAreaHandler[] = [
+  {
+    id: "settings",
+    label: "Settings",
+    location: `Local storage: ${SETTINGS_KEY}`,
+    measure: () => localStorageUsage(SETTINGS_KEY),
+    clear: async () => localStorage.removeItem(SETTINGS_KEY),
+  },
+  {
+    id: "fontList",
+    label: "Imported font list",
+    location: `Local storage: ${FONT_VARIANTS_KEY}`,
+    measure: () => localStorageUsage(FONT_VARIANTS_KEY),
+    clear: async () => localStorage.removeItem(FONT_VARIANTS_KEY),
+  },
+  {
+    id: "images",
+    label: "Images",
+    location: "IndexedDB: mso / images",
+    measure: async () => {
+      const images = await getImages();
+      return {
+        bytes: images.reduce((total, image) => total + image.size, 0),
+        entries: images.length,
+      };
+    },
+    clear: clearImages,
+  },
+  {
+    id: "fontFiles",
+    label: "Font files",
+    location: `Cache storage: ${FONT_CACHE_NAME}`,
+    measure: () => cacheUsage(FONT_CACHE_NAME),
+    clear: () => clearCache(FONT_CACHE_NAME),
+  },
+  {
+    id: "appFiles",
+    label: "Offline app files",
+    location: `Cache storage: ${APP_CACHE_NAME}`,
+    measure: () => cacheUsage(APP_CACHE_NAME),
+    clear: () => clearCache(APP_CACHE_NAME),
+  },
+];
+
+export const measureStorage = (): Promise<StorageArea[]> =>
+  Promise.all(
+    storageAreas.map(async ({ id, label, location, measure }) => {
+      try {
+        return { id, label, location, ...(await measure()) };
+      } catch {
+        return { id, label, location, bytes: null, entries: null };
+      }
+    })
+  );
+
+export const clearStorageArea = async (id: StorageAreaId): Promise<void> => {
+  await storageAreas.find((area) => area.id === id)?.clear();
+};
+
+export const formatBytes = (bytes: number): string => {
+  if (bytes < 1024) {
+    return `${bytes} B`;
+  }
+  if (bytes < 1024 * 1024) {
+    return `${(bytes / 1024).toFixed(1)} KB`;
+  }
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
@@ -0,0 +1,339 @@
+export type BuiltInThemeId = "light" | "dark" | "paper" | "terminal";
+export type CustomThemeId = `custom-${string}`;
+export type ThemeId = BuiltInThemeId | CustomThemeId;
+
+export const THEME_VARIABLES = [
+  { name: "--app-bg", label: "App background" },
+  { name: "--panel-bg", label: "Page background" },
+  { name: "--panel-border", label: "Borders" },
+  { name: "--text-primary", label: "Text" },
+  { name: "--text-muted", label: "Muted text" },
+  { name: "--shadow-color", label: "Shadow" },
+  { name: "--accent", label: "Accent" },
+  { name: "--link-color", label: "Links" },
+  { name: "--heading-color", label: "Headings" },
+  { name: "--code-bg", label: "Code background" },
+  { name: "--code-text", label: "Code text" },
+  { name: "--code-keyword", label: "Code keywords" },
+  { name: "--code-string", label: "Code strings" },
+  { name: "--code-comment", label: "Code comments" },
+  { name: "--code-number", label: "Code numbers" },
+  { name: "--code-function", label: "Code functions" },
+  { name: "--code-type", label: "Code types" },
+  { name: "--code-attr", label: "Code attributes" },
+  { name: "--code-meta", label: "Code meta" },
+  { name: "--code-line-number", label: "Code line numbers" },
+  { name: "--mark-bg", label: "Highlight background" },
+  { name: "--mark-text", label: "Highlight text" },
+] as const;
+
+export type ThemeVariable = (typeof THEME_VARIABLES)[number]["name"];
+export type ThemeVariables = Record<ThemeVariable, string>;
+
+export type CustomTheme = {
+  id: CustomThemeId;
+  name: string;
+  // The built-in palette it started from; diagrams and any variable added
+  // in a later release fall back to it.
+  base: BuiltInThemeId;
+  variables: ThemeVariables;
+};
+
+export const builtInThemes: Record<
+  BuiltInThemeId,
+  { name: string; variables: ThemeVariables }
+> = {
+  light: {
+    name: "Light",
+    variables: {
+      "--app-bg": "#f6f7f9",
+      "--panel-bg": "#ffffff",
+      "--panel-border": "#e5e7eb",
+      "--text-primary": "#1f2937",
+      "--text-muted": "#4b5563",
+      "--shadow-color": "rgba(15, 23, 42, 0.08)",
+      "--accent": "#6366f1",
+      "--link-color": "#2563eb",
+      "--heading-color": "#111827",
+      "--code-bg": "#0f172a",
+      "--code-text": "#e2e8f0",
+      "--code-keyword": "#c792ea",
+      "--code-string": "#c3e88d",
+      "--code-comment": "#7f8ca3",
+      "--code-number": "#f78c6c",
+      "--code-function": "#82aaff",
+      "--code-type": "#ffcb6b",
+      "--code-attr": "#89ddff",
+      "--code-meta": "#f07178",
+      "--code-line-number": "#64748b",
+      "--mark-bg": "#fef08a",
+      "--mark-text": "#1f2937",
+    },
+  },
+  dark: {
+    name: "Dark",
+    variables: {
+      "--app-bg": "#0f172a",
+      "--panel-bg": "#111827",
+      "--panel-border": "#1f2937",
+      "--text-primary": "#f9fafb",
+      "--text-muted": "#9ca3af",
+      "--shadow-color": "rgba(0, 0, 0, 0.35)",
+      "--accent": "#818cf8",
+      "--link-color": "#93c5fd",
+      "--heading-color": "#f9fafb",
+      "--code-bg": "#111827",
+      "--code-text": "#f9fafb",
+      "--code-keyword": "#f472b6",
+      "--code-string": "#86efac",
+      "--code-comment": "#6b7280",
+      "--code-number": "#fdba74",
+      "--code-function": "#93c5fd",
+      "--code-type": "#fde047",
+      "--code-attr": "#67e8f9",
+      "--code-meta": "#fca5a5",
+      "--code-line-number": "#4b5563",
+      "--mark-bg": "#854d0e",
+      "--mark-text": "#fef9c3",
+    },
+  },
+  paper: {
+    name: "Paper",
+    variables: {
+      "--app-bg": "#f3f0ea",
+      "--panel-bg": "#fffdf8",
+      "--panel-border": "#e7e2d9",
+      "--text-primary": "#3f3a30",
+      "--text-muted": "#6b6459",
+      "--shadow-color": "rgba(63, 58, 48, 0.12)",
+      "--accent": "#a16207",
+      "--link-color": "#8a5a2b",
+      "--heading-color": "#2f2a22",
+      "--code-bg": "#3f3a30",
+      "--code-text": "#f9f6ef",
+      "--code-keyword": "#e7a16b",
+      "--code-string": "#c5d39a",
+      "--code-comment": "#a59c8b",
+      "--code-number": "#f2c57c",
+      "--code-function": "#9cc4d6",
+      "--code-type": "#e9d18a",
+      "--code-attr": "#d9b38c",
+      "--code-meta": "#e08f7f",
+      "--code-line-number": "#8a8171",
+      "--mark-bg": "#f5e3a3",
+      "--mark-text": "#3f3a30",
+    },
+  },
+  terminal: {
+    name: "Terminal",
+    variables: {
+      "--app-bg": "#0b0f0c",
+      "--panel-bg": "#0f1412",
+      "--panel-border": "#1f2a25",
+      "--text-primary": "#c7f9cc",
+      "--text-muted": "#84cc9b",
+      "--shadow-color": "rgba(0, 0, 0, 0.4)",
+      "--accent": "#4ade80",
+      "--link-color": "#86efac",
+      "--heading-color": "#d9f99d",
+      "--code-bg": "#0b0f0c",
+      "--code-text": "#c7f9cc",
+      "--code-keyword": "#4ade80",
+      "--code-string": "#fde68a",
+      "--code-comment": "#4d7c5b",
+      "--code-number": "#fbbf24",
+      "--code-function": "#a7f3d0",
+      "--code-type": "#86efac",
+      "--code-attr": "#6ee7b7",
+      "--code-meta": "#facc15",
+      "--code-line-number": "#3f6b4c",
+      "--mark-bg": "#14532d",
+      "--mark-text": "#d9f99d",
+    },
+  },
+};
+
+export const builtInThemeIds = Object.keys(builtInThemes) as BuiltInThemeId[];
+
+const CUSTOM_THEMES_KEY = "mso-custom-themes";
+const THEME_FILE_FORMAT = "mso-themes";
+const THEME_FILE_VERSION = 1;
+const CUSTOM_ID_PATTERN = /^custom-[a-z0-9-]+$/;
+const COLOR_PATTERN =
+  /^(?:#[0-9a-f]{3}|#[0-9a-f]{6}|#[0-9a-f]{8}|rgba?\(\s*[\d.]+\s*,\s*[\d.]+\s*,\s*[\d.]+\s*(?:,\s*[\d.]+\s*)?\))$/i;
+
+export const isBuiltInThemeId = (value: unknown): value is BuiltInThemeId =>
+  builtInThemeIds.some((id) => id === value);
+
+export const isThemeId = (value: unknown): value is ThemeId =>
+  isBuiltInThemeId(value) ||
+  (typeof value === "string" && CUSTOM_ID_PATTERN.test(value));
+
+export const isThemeColor = (value: unknown): value is string =>
+  typeof value === "string" && COLOR_PATTERN.test(value.trim());
+
+export const createCustomThemeId = (): CustomThemeId =>
+  `custom-${crypto.randomUUID()}`;
+
+const cleanTheme = (value: unknown): Omit<CustomTheme, "id"> | null => {
+  if (typeof value !== "object" || value === null) {
+    return null;
+  }
+  const raw = value as Record<string, unknown>;
+  const name = typeof raw.name === "string" ? raw.name.trim() : "";
+  if (!name) {
+    return null;
+  }
+  const base = isBuiltInThemeId(raw.base) ? raw.base : "light";
+  const source =
+    typeof raw.variables === "object" && raw.variables !== null
+      ? (raw.variables as Record<string, unknown>)
+      : {};
+  const variables = { ...builtInThemes[base].variables };
+  THEME_VARIABLES.forEach(({ name: variable }) => {
+    const color = source[variable];
+    if (isThemeColor(color)) {
+      variables[variable] = color.trim();
+    }
+  });
+  return { name: name.slice(0, 60), base, variables };
+};
+
+// Keeps each theme's id, unlike theme files, so settings that name a
+// custom theme still find it.
+export const readCustomThemes = (value: unknown): CustomTheme[] =>
+  Array.isArray(value)
+    ? value.flatMap((item: unknown) => {
+        const theme = cleanTheme(item);
+        const id = theme ? (item as { id?: unknown }).id : undefined;
+        return theme && typeof id === "string" && CUSTOM_ID_PATTERN.test(id)
+          ? [{ ...theme, id: id as CustomThemeId }]
+          : [];
+      })
+    : [];
+
+export const loadCustomThemes = (): CustomTheme[] => {
+  const raw = localStorage.getItem(CUSTOM_THEMES_KEY);
+  if (!raw) {
+    return [];
+  }
+  try {
+    return readCustomThemes(JSON.parse(raw));
+  } catch {
+    return [];
+  }
+};
+
+export const saveCustomThemes = (themes: CustomTheme[]) => {
+  localStorage.setItem(CUSTOM_THEMES_KEY, JSON.stringify(themes));
+};
+
+// Unknown ids (a deleted custom theme, or one named in another browser's
+// front-matter) fall back to the light palette rather than leaving the page
+// half-styled.
+export const resolveTheme = (
+  id: ThemeId,
+  customThemes: CustomTheme[]
+): { name: string; base: BuiltInThemeId; variables: ThemeVariables } => {
+  if (isBuiltInThemeId(id)) {
+    return { ...builtInThemes[id], base: id };
+  }
+  const custom = customThemes.find((theme) => theme.id === id);
+  return custom ?? { ...builtInThemes.light, base: "light" };
+};
+
+export const serializeThemes = (themes: CustomTheme[]): string =>
+  JSON.stringify(
+    {
+      format: THEME_FILE_FORMAT,
+      version: THEME_FILE_VERSION,
+      themes: themes.map(({ name, base, variables }) => ({
+        name,
+        base,
+        variables,
+      })),
+    },
+    null,
+    2
+  );
+
+// Imported themes always get fresh ids so they never overwrite local ones.
+export const parseThemeFile = (text: string): CustomTheme[] => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error("Theme file is not valid JSON.");
+  }
+  const file = data as { format?: unknown; version?: unknown; themes?: unknown };
+  if (file?.format !== THEME_FILE_FORMAT || !Array.isArray(file.themes)) {
+    throw new Error("Not a theme file.");
+  }
+  if (typeof file.version === "number" && file.version > THEME_FILE_VERSION) {
+    throw new Error("This theme file was made by a newer version of the app.");
+  }
+  const themes = file.themes.flatMap((item: unknown) => {
+    const theme = cleanTheme(item);
+    return theme ? [{ ...theme, id: createCustomThemeId() }] : [];
+  });
+  if (themes.length === 0) {
+    throw new Error("Theme file contains no usable themes.");
+  }
+  return themes;
+};
+
+const parseHex = (value: string): [number, number, number] | null => {
+  const hex = value.trim().replace(/^#/, "");
+  if (!/^(?:[0-9a-f]{3}|[0-9a-f]{6}|[0-9a-f]{8})$/i.test(hex)) {
+    return null;
+  }
+  const full =
+    hex.length === 3
+      ? hex
+          .split("")
+          .map((digit) => digit + digit)
+          .join("")
+      : hex.slice(0, 6);
+  return [0, 2, 4].map((start) =>
+    Number.parseInt(full.slice(start, start + 2), 16)
+  ) as [number, number, number];
+};
+
+const luminance = ([red, green, blue]: [number, number, number]) => {
+  const [r, g, b] = [red, green, blue].map((channel) => {
+    const value = channel / 255;
+    return value <= 0.03928 ? value / 12.92 : ((value + 0.055) / 1.055) ** 2.4;
+  });
+  return 0.2126 * r + 0.7152 * g + 0.0722 * b;
+};
+
+// WCAG contrast ratio between two hex colours; null when either colour is
+// not a plain hex value.
+export const contrastRatio = (
+  foreground: string,
+  background: string
+): number | null => {
+  const front = parseHex(foreground);
+  const back = parseHex(background);
+  if (!front || !back) {
+    return null;
+  }
+  const [light, dark] = [luminance(front), luminance(back)].sort(
+    (a, b) => b - a
+  );
+  return (light + 0.05) / (dark + 0.05);
+};
+
+// Text/background pairs the theme editor checks against WCAG AA (4.5:1).
+export const CONTRAST_PAIRS: Array<{
+  label: string;
+  foreground: ThemeVariable;
+  background: ThemeVariable;
+}> = [
+  { label: "Text", foreground: "--text-primary", background: "--panel-bg" },
+  { label: "Muted text", foreground: "--text-muted", background: "--panel-bg" },
+  { label: "Headings", foreground: "--heading-color", background: "--panel-bg" },
+  { label: "Links", foreground: "--link-color", background: "--panel-bg" },
+  { label: "Code", foreground: "--code-text", background: "--code-bg" },
+  { label: "Highlight", foreground: "--mark-text", background: "--mark-bg" },
+];
@@ -1,3 +1,6 @@
+// Must match APP_CACHE in public/sw.js.
+export const APP_CACHE_NAME = "mso-app-v2";
+
 export const registerServiceWorker = (): void => {
   if (!("serviceWorker" in navigator)) {
     return;
@@ -2,4 +2,9 @@ import { defineConfig } from "vite";
 
 export default defineConfig({
   base: "/markdown-stylizer-online/",
+  build: {
+    // Read by the service worker to precache every build file, including
+    // chunks that are only imported on demand.
+    manifest: "precache-manifest.json",
+  },
 });